@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   BookOpen, 
   Calendar, 
@@ -14,100 +14,235 @@ import {
   Flame,
   Star,
   Trophy,
-  ArrowRight
+  ArrowRight,
+  Download
 } from 'lucide-react';
-import { format, addDays, differenceInDays, parseISO, isAfter, startOfDay } from 'date-fns';
-import { ReadingData, ScheduleItem } from './types';
+import { format, differenceInDays, parseISO } from 'date-fns';
+import { Book, BookMetadata, CoachContext, Library, QuarantinedRecord, ReadingPlan, ReadingUnit, ScheduleStatus } from './types';
+import { BOOK_STATUSES, createBook, isValidDateKey, setBookStatus } from './services/libraryService';
+import { LibraryStore, loadTheme, saveTheme } from './services/storageService';
+import { logSession, pagesLoggedOn, toDateKey } from './services/sessionService';
+import { createPlanner, formatScheduleDate, getEstimatedFinishDate, getUpcomingItems, rebaselineBook } from './services/planner';
+import BookSwitcher from './components/BookSwitcher';
+import PlanBalanceCard from './components/PlanBalanceCard';
+import { buildDailyHistory, buildProgressChart, getObservedVelocity, getPageBooks, getReadingStats, projectFinishFromVelocity } from './services/analyticsService';
+import { scheduleToCsv } from './services/backupService';
+import { downloadFile, toFileSlug } from './services/fileService';
+import { createReadingCoach } from './services/geminiService';
+import AvailabilityEditor from './components/AvailabilityEditor';
+import ChapterEditor from './components/ChapterEditor';
+import DataTransferCard from './components/DataTransferCard';
+import CalendarExportMenu from './components/CalendarExportMenu';
+import CoachPanel from './components/CoachPanel';
+import ReadingAnalytics from './components/ReadingAnalytics';
+import DurationInput from './components/DurationInput';
+import ChallengesCard from './components/ChallengesCard';
+import { getChallengePagesPerDay, getNextQueuedBook } from './services/challengeService';
+import { buildQueueProjections, getQueueRoadmap } from './services/queueService';
+import QueuePanel from './components/QueuePanel';
+import ReminderCard from './components/ReminderCard';
+import BookLookup from './components/BookLookup';
+import NotesPanel from './components/NotesPanel';
+import GroupPanel from './components/GroupPanel';
+import ScenarioPanel from './components/ScenarioPanel';
+import ProgressChart from './components/ProgressChart';
+import SessionTimer from './components/SessionTimer';
+import ReportCardView from './components/ReportCardView';
+import { applyGroupPlan } from './services/groupService';
+import { canPlanByTime, estimateReadingMinutes, formatReadingSpeed, formatReadingTime, getDailyPageGoal, getReadingSpeed, isPlanningByTime } from './services/speedService';
+import { formatNoteAnchor, getNotesInRange } from './services/noteService';
+import { getBookRetrospective, getReviewYears, getYearInReview, toBookReportCard, toYearReportCard } from './services/retrospectiveService';
+import {
+  clearReminder,
+  getDelayUntilReminder,
+  getReminderMessage,
+  isReminderDue,
+  loadReminderSettings,
+  saveReminderSettings,
+  showReminder
+} from './services/reminderService';
+import {
+  PLAYBACK_SPEEDS,
+  READING_UNITS,
+  UNIT_INFO,
+  canChangeUnit,
+  changeUnit,
+  formatAmount,
+  formatAmountWithUnit,
+  formatDuration,
+  formatGoal,
+  formatPosition,
+  formatSpeed,
+  fromGoalAmount,
+  getRangeStart,
+  toGoalAmount
+} from './services/unitService';
 
-const STORAGE_KEY = 'bookbound_data_v2';
+const STATUS_STYLES: Record<Exclude<ScheduleStatus, 'pending'>, { label: string; dot: string; chip: string }> = {
+  completed: { label: 'Done', dot: 'bg-emerald-500', chip: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400' },
+  partial: { label: 'Partial', dot: 'bg-amber-400', chip: 'bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400' },
+  missed: { label: 'Missed', dot: 'bg-rose-400', chip: 'bg-rose-100 dark:bg-rose-900/30 text-rose-600 dark:text-rose-400' },
+};
+
+interface AppProps {
+  store: LibraryStore;
+  initialLibrary: Library;
+  initialQuarantine: QuarantinedRecord[];
+  // Set when the saved library couldn't be opened and the app started from a fallback
+  loadError?: string;
+}
 
-const App: React.FC = () => {
+const App: React.FC<AppProps> = ({ store, initialLibrary, initialQuarantine, loadError }) => {
   const [darkMode, setDarkMode] = useState(() => {
     if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('theme');
+      const saved = loadTheme();
       return saved === 'dark' || (!saved && window.matchMedia('(prefers-color-scheme: dark)').matches);
     }
     return false;
   });
 
-  const [data, setData] = useState<ReadingData>(() => {
-    const savedData = localStorage.getItem(STORAGE_KEY);
-    if (savedData) {
-      try {
-        const parsed = JSON.parse(savedData);
-        return parsed;
-      } catch (e) {
-        console.error("Failed to parse saved data", e);
-      }
-    }
-    return {
-      bookTitle: '',
-      totalPages: 0,
-      pagesRead: 0,
-      targetFinishDate: format(addDays(new Date(), 30), 'yyyy-MM-dd'),
-      pagesPerDay: 10, // Default set to 10 as requested
-      startsFromToday: true
-    };
-  });
+  const [library, setLibrary] = useState(initialLibrary);
+  const [quarantined, setQuarantined] = useState(initialQuarantine);
+  // The library as last loaded or received from another tab; saving it again would echo it straight back
+  const syncedLibrary = useRef(initialLibrary);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-  }, [data]);
+    if (library === syncedLibrary.current) return;
+    store.save(library).catch(e => console.error("Failed to save library", e));
+  }, [library, store]);
+
+  // Another tab saved: take its library but stay on the book open here if it still exists
+  useEffect(() => store.subscribe(remote => {
+    setLibrary(prev => {
+      const next = remote.books.some(book => book.id === prev.activeBookId) ? { ...remote, activeBookId: prev.activeBookId } : remote;
+      syncedLibrary.current = next;
+      return next;
+    });
+  }), [store]);
+
+  const data = library.books.find(book => book.id === library.activeBookId) ?? library.books[0];
+
+  const [partialPages, setPartialPages] = useState('');
+  const [partialMinutes, setPartialMinutes] = useState('');
+  const [projectFromVelocity, setProjectFromVelocity] = useState(false);
+  const [roadmapView, setRoadmapView] = useState<'book' | 'queue'>('book');
+  const [reminder, setReminder] = useState(loadReminderSettings);
+  const [reminderCheck, setReminderCheck] = useState(0);
+  const [reviewYear, setReviewYear] = useState<number | null>(null);
+
+  useEffect(() => {
+    saveReminderSettings(reminder);
+  }, [reminder]);
+
+  const updateActiveBook = (updater: (prev: Book) => Book) => {
+    setLibrary(prev => ({
+      ...prev,
+      books: prev.books.map(book => book.id === data.id ? updater(book) : book)
+    }));
+  };
+
+  const handleSelectBook = (id: string) => {
+    setLibrary(prev => ({ ...prev, activeBookId: id }));
+  };
+
+  // New books start at the pace the reading challenges still need
+  const handleAddBook = () => {
+    const book = createBook(challengePace !== null ? { pagesPerDay: challengePace } : {});
+    setLibrary(prev => ({
+      ...prev,
+      books: [...prev.books, book],
+      activeBookId: book.id
+    }));
+  };
 
   useEffect(() => {
     if (darkMode) {
       document.documentElement.classList.add('dark');
-      localStorage.setItem('theme', 'dark');
+      saveTheme('dark');
     } else {
       document.documentElement.classList.remove('dark');
-      localStorage.setItem('theme', 'light');
+      saveTheme('light');
     }
   }, [darkMode]);
 
-  const today = useMemo(() => new Date(), []);
+  const planner = useMemo(() => createPlanner(), []);
+  const today = useMemo(() => planner.today(), [planner]);
   const pagesLeft = Math.max(0, data.totalPages - data.pagesRead);
 
-  // Calculate schedule based on pages left and daily pace
-  const schedule = useMemo(() => {
-    const items: ScheduleItem[] = [];
-    if (pagesLeft <= 0 || data.pagesPerDay <= 0 || data.totalPages <= 0) return items;
+  const plans = useMemo(() => {
+    const byBook: Record<string, ReadingPlan> = {};
+    library.books.forEach(book => {
+      byBook[book.id] = planner.buildPlan(book, library.availability);
+    });
+    return byBook;
+  }, [library.books, library.availability, planner]);
 
-    let currentPagesRead = Number(data.pagesRead);
-    const total = Number(data.totalPages);
-    const pace = Number(data.pagesPerDay);
-    
-    let dayOffset = data.startsFromToday ? 0 : 1;
-    let dayCount = 0;
-
-    // Safety limit to prevent infinite loops
-    while (currentPagesRead < total && dayCount < 365) {
-      const date = addDays(today, dayOffset + dayCount);
-      const remainingForTarget = total - currentPagesRead;
-      const readToday = Math.min(pace, remainingForTarget);
-      
-      const startPage = currentPagesRead + 1;
-      const endPage = currentPagesRead + readToday;
-      
-      currentPagesRead += readToday;
-      
-      items.push({
-        date: format(date, 'MMM dd, EEE'),
-        pagesToReadToday: readToday,
-        startPage,
-        endPage,
-        cumulativePagesRead: currentPagesRead,
-        percentComplete: Math.round((currentPagesRead / total) * 100)
-      });
+  const plan = plans[data.id] ?? { items: [], pastDays: 0, truncated: false };
+  const schedule = plan.items;
+  const progressChart = useMemo(() => buildProgressChart(data, plan, today), [data, plan, today]);
 
-      dayCount++;
-    }
+  // Rows before today are kept for a week so missed days stay visible
+  const upcomingSchedule = getUpcomingItems(plan);
+  const visibleSchedule = schedule.slice(Math.max(0, plan.pastDays - 7));
+
+  const queueProjections = useMemo(
+    () => buildQueueProjections(library.books, library.queue, today, library.availability),
+    [library.books, library.queue, library.availability, today]
+  );
+
+  // The queue view runs every scheduled book together, from today on
+  const roadmapRows = (roadmapView === 'queue' && queueProjections.length > 1
+    ? getQueueRoadmap(queueProjections).map(({ bookId, item }) => ({ book: library.books.find(book => book.id === bookId) ?? data, item }))
+    : visibleSchedule.map(item => ({ book: data, item }))
+  ).map(row => ({ ...row, minutes: row.book.unit === 'duration' ? null : estimateReadingMinutes(row.book, row.item.pagesToReadToday) }));
+
+  const planBalance = useMemo(() => planner.getPlanBalance(data, library.availability), [data, library.availability, planner]);
+
+  const estimatedFinishDate = getEstimatedFinishDate(plan);
+
+  const readingHistory = useMemo(() => buildDailyHistory(getPageBooks(library.books)), [library.books]);
+  const readingStats = useMemo(() => getReadingStats(library.books, today), [library.books, today]);
+
+  const bookRetrospective = useMemo(() => getBookRetrospective(data), [data]);
+  const reviewYears = useMemo(() => getReviewYears(library.books), [library.books]);
+  const selectedReviewYear = reviewYear !== null && reviewYears.includes(reviewYear) ? reviewYear : reviewYears[0];
+  const yearInReview = useMemo(
+    () => (selectedReviewYear !== undefined ? getYearInReview(library.books, selectedReviewYear) : null),
+    [library.books, selectedReviewYear]
+  );
+
+  const challengePace = useMemo(
+    () => getChallengePagesPerDay(library.challenges, library.books, today),
+    [library.challenges, library.books, today]
+  );
 
-    return items;
-  }, [data, pagesLeft, today]);
+  const coach = useMemo(() => createReadingCoach({ clock: planner.today }), [planner]);
 
-  const estimatedFinishDate = schedule.length > 0 
-    ? schedule[schedule.length - 1].date 
-    : 'N/A';
+  const velocity = getObservedVelocity(data, today);
+  const observedPace = toGoalAmount(data, velocity);
+  const velocityFinishDate = projectFinishFromVelocity(pagesLeft, velocity, today);
+  const projectedFinishDate = projectFromVelocity ? velocityFinishDate : estimatedFinishDate;
+  const projectedDaysLeft = projectFromVelocity
+    ? (velocityFinishDate ? differenceInDays(parseISO(velocityFinishDate), today) + 1 : 0)
+    : upcomingSchedule.length;
+
+  const rebaseline = (book: Book): Book => rebaselineBook(book, today);
+
+  const coachContext: CoachContext = {
+    bookId: data.id,
+    title: data.bookTitle,
+    totalPages: Math.round(toGoalAmount(data, data.totalPages)),
+    pagesLeft: Math.round(toGoalAmount(data, pagesLeft)),
+    pagesPerDay: getDailyPageGoal(data),
+    observedPagesPerDay: toGoalAmount(data, velocity),
+    daysToDeadline: (differenceInDays(parseISO(data.targetFinishDate), today) + 1) || 0,
+    pageDelta: Math.round(toGoalAmount(data, planBalance.pageDelta)),
+    daysPastDeadline: planBalance.daysPastDeadline,
+    currentStreak: readingStats.currentStreak,
+    unit: data.unit,
+    targetFinishDate: data.targetFinishDate,
+    status: data.status
+  };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value, type, checked } = e.target;
@@ -115,40 +250,115 @@ const App: React.FC = () => {
     
     if (type === 'checkbox') {
       newValue = checked;
-    } else if (name === 'bookTitle' || name === 'targetFinishDate') {
+    } else if (name === 'targetFinishDate') {
+      // Clearing the date field or typing half a date keeps the current deadline
+      if (!isValidDateKey(value)) return;
+      newValue = value;
+    } else if (name === 'bookTitle') {
       newValue = value;
     } else {
       newValue = value === '' ? 0 : Math.max(0, parseInt(value, 10) || 0);
     }
 
-    setData(prev => {
-      const updated = { ...prev, [name]: newValue };
-      
-      // Auto-calculate pace if deadline is changed or total pages change
-      if (name === 'targetFinishDate' || name === 'totalPages' || name === 'pagesRead') {
-        try {
-          const deadline = parseISO(name === 'targetFinishDate' ? (newValue as string) : prev.targetFinishDate);
-          const tPages = name === 'totalPages' ? (newValue as number) : prev.totalPages;
-          const rPages = name === 'pagesRead' ? (newValue as number) : prev.pagesRead;
-          const pLeft = Math.max(0, tPages - rPages);
-          
-          const daysToDeadline = differenceInDays(deadline, startOfDay(today)) + (prev.startsFromToday ? 1 : 0);
-          
-          if (daysToDeadline > 0 && pLeft > 0) {
-            updated.pagesPerDay = Math.ceil(pLeft / daysToDeadline);
-          }
-        } catch (err) {
-          console.warn("Could not calculate auto-pace", err);
-        }
-      }
-
-      return updated;
-    });
+    updatePlan(prev => ({ ...prev, [name]: newValue }), name as keyof Book);
+  };
+
+  // Auto-calculates the pace when the deadline or length changes, and re-baselines the plan from today
+  const updatePlan = (change: (prev: Book) => Book, name: keyof Book) => {
+    updateActiveBook(prev => planner.replanBook(change(prev), [name], library.availability));
+  };
+
+  const handleMetadataSelect = (metadata: BookMetadata) => {
+    updatePlan(prev => ({
+      ...prev,
+      bookTitle: metadata.title,
+      author: metadata.author,
+      isbn: metadata.isbn,
+      edition: metadata.edition,
+      coverUrl: metadata.coverUrl,
+      // A page count only applies to books tracked in pages
+      ...(metadata.pageCount && prev.unit === 'pages' ? { totalPages: metadata.pageCount } : {})
+    }), 'totalPages');
+  };
+
+  // Switching to time starts from about as long as the page goal takes at the measured speed
+  const handleGoalModeChange = (byTime: boolean) => {
+    if ((data.minutesPerDay !== undefined) === byTime) return;
+    updatePlan(prev => ({
+      ...prev,
+      minutesPerDay: byTime ? estimateReadingMinutes(prev, prev.pagesPerDay) || 30 : undefined,
+    }), 'minutesPerDay');
+  };
+
+  const handleTimerStop = (minutes: number) => {
+    if (data.unit === 'duration') setPartialPages(String(minutes));
+    else setPartialMinutes(String(minutes));
+  };
+
+  const handleUnitChange = (unit: ReadingUnit) => {
+    if (!canChangeUnit(data)) return;
+    updatePlan(prev => changeUnit(prev, unit), 'unit');
   };
 
   const toggleDarkMode = () => setDarkMode(!darkMode);
 
-  const todaysTarget = schedule.find(item => item.date === format(today, 'MMM dd, EEE'));
+  const handleExportCsv = () => {
+    downloadFile(`${toFileSlug(data.bookTitle, 'book')}-roadmap.csv`, scheduleToCsv(schedule), 'text/csv');
+  };
+
+  const todayKey = toDateKey(today);
+  const todaysTarget = planner.getTodaysTarget(plan);
+  const loggedToday = pagesLoggedOn(data, today);
+  const remainingToday = todaysTarget ? Math.max(0, todaysTarget.pagesToReadToday - loggedToday) : 0;
+  const readingSpeed = getReadingSpeed(data);
+  // Audiobook goals are already listening time
+  const todaysMinutes = todaysTarget && data.unit !== 'duration' ? estimateReadingMinutes(data, todaysTarget.pagesToReadToday) : null;
+
+  const reminderMessage = todaysTarget ? getReminderMessage(data, todaysTarget, remainingToday) : null;
+
+  // Shows today's reminder at the chosen time, or on opening the app if that time has passed
+  useEffect(() => {
+    if (!reminder.enabled || !reminderMessage) return;
+    const now = new Date();
+    // Left open past midnight, today's plan is stale until the next load
+    if (toDateKey(now) !== todayKey) return;
+
+    if (isReminderDue(reminder, now, remainingToday)) {
+      showReminder(reminderMessage.title, reminderMessage.body).then(shown => {
+        if (shown) setReminder(prev => ({ ...prev, lastShown: todayKey }));
+      });
+      return;
+    }
+    const delay = getDelayUntilReminder(reminder, now);
+    if (delay === null) return;
+    const timer = setTimeout(() => setReminderCheck(count => count + 1), delay);
+    return () => clearTimeout(timer);
+  }, [reminder, reminderMessage?.body, remainingToday, todayKey, reminderCheck]);
+
+  // Marking the day done takes down a reminder that is still showing
+  useEffect(() => {
+    if (todaysTarget && remainingToday <= 0) clearReminder();
+  }, [todaysTarget, remainingToday]);
+
+  const handleLogSession = (pages: number, minutes?: number) => {
+    updateActiveBook(prev => logSession(prev, pages, today, minutes));
+  };
+
+  // Audiobook sessions are logged as listening time, which is also the session length
+  const handleMarkDone = () => {
+    if (remainingToday <= 0) return;
+    handleLogSession(remainingToday, data.unit === 'duration' ? Math.round(toGoalAmount(data, remainingToday)) : undefined);
+  };
+
+  const handlePartialSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseInt(partialPages, 10) || 0;
+    if (amount <= 0) return;
+    if (data.unit === 'duration') handleLogSession(fromGoalAmount(data, amount), amount);
+    else handleLogSession(amount, parseInt(partialMinutes, 10) || undefined);
+    setPartialPages('');
+    setPartialMinutes('');
+  };
 
   return (
     <div className="min-h-screen transition-all duration-500 bg-[#F8F9FF] dark:bg-[#09090B] text-[#1A1A1E] dark:text-[#F4F4F5] font-sans selection:bg-violet-500 selection:text-white pb-20">
@@ -174,6 +384,14 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex items-center gap-3">
+            <BookSwitcher
+              books={library.books}
+              activeBookId={data.id}
+              plans={plans}
+              onSelect={handleSelectBook}
+              onAdd={handleAddBook}
+              onStatusChange={(status) => updateActiveBook(prev => setBookStatus(prev, status))}
+            />
             <button 
               onClick={toggleDarkMode}
               className="p-2 rounded-xl bg-white dark:bg-[#18181B] border border-gray-200 dark:border-gray-800 shadow-sm hover:scale-110 active:scale-95 transition-all text-amber-500 dark:text-indigo-400"
@@ -185,6 +403,11 @@ const App: React.FC = () => {
       </header>
 
       <main className="relative z-10 max-w-5xl mx-auto px-4 py-8 space-y-8">
+        {loadError && (
+          <p role="alert" className="p-4 rounded-2xl bg-rose-50 dark:bg-rose-900/20 border border-rose-100 dark:border-rose-900/30 text-[13px] font-bold text-rose-600 dark:text-rose-400">
+            {loadError}
+          </p>
+        )}
         
         {/* Date & Quick Focus Hero */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -207,11 +430,19 @@ const App: React.FC = () => {
                     <p className="text-xs font-black text-gray-400 dark:text-gray-500 uppercase tracking-[0.2em]">Today's Reading Goal</p>
                     {todaysTarget ? (
                       <div className="flex items-baseline gap-2">
-                        <span className="text-5xl font-black text-indigo-600 dark:text-indigo-400 tabular-nums">{todaysTarget.pagesToReadToday}</span>
-                        <span className="text-xl font-bold text-gray-500">pages</span>
+                        <span className="text-5xl font-black text-indigo-600 dark:text-indigo-400 tabular-nums">{Math.round(toGoalAmount(data, todaysTarget.pagesToReadToday))}</span>
+                        <span className="text-xl font-bold text-gray-500">{data.unit === 'percent' ? '%' : UNIT_INFO[data.unit].noun}</span>
+                        {data.unit === 'duration' && data.playbackSpeed !== 1 && (
+                          <span className="text-sm font-bold text-gray-400">at {formatSpeed(data.playbackSpeed)}</span>
+                        )}
+                        {todaysMinutes !== null && (
+                          <span className="text-sm font-bold text-gray-400" title={readingSpeed !== null ? `At ${formatReadingSpeed(data, readingSpeed)}` : undefined}>
+                            {formatReadingTime(todaysMinutes)}
+                          </span>
+                        )}
                       </div>
                     ) : (
-                      <span className="text-2xl font-bold text-gray-400">All caught up!</span>
+                      <span className="text-2xl font-bold text-gray-400">{bookRetrospective ? 'Finished!' : 'All caught up!'}</span>
                     )}
                   </div>
                   
@@ -219,22 +450,60 @@ const App: React.FC = () => {
                     <div className="flex items-center gap-4 bg-indigo-50 dark:bg-indigo-900/20 p-4 rounded-2xl border border-indigo-100 dark:border-indigo-900/30">
                        <div className="text-center">
                           <p className="text-[10px] font-black text-indigo-400 uppercase">Start</p>
-                          <p className="text-xl font-black text-indigo-600 dark:text-indigo-300">{todaysTarget.startPage}</p>
+                          <p className="text-xl font-black text-indigo-600 dark:text-indigo-300">{formatPosition(data.unit, getRangeStart(data.unit, todaysTarget.startPage))}</p>
                        </div>
                        <ArrowRight className="w-5 h-5 text-indigo-300" />
                        <div className="text-center">
                           <p className="text-[10px] font-black text-indigo-400 uppercase">Finish</p>
-                          <p className="text-xl font-black text-indigo-600 dark:text-indigo-300">{todaysTarget.endPage}</p>
+                          <p className="text-xl font-black text-indigo-600 dark:text-indigo-300">{formatPosition(data.unit, todaysTarget.endPage)}</p>
                        </div>
                     </div>
                   )}
 
                   <div className="w-full sm:w-auto">
-                    <button className="w-full sm:w-auto px-6 py-3 rounded-2xl bg-indigo-600 hover:bg-indigo-700 text-white font-black text-sm transition-all shadow-lg shadow-indigo-500/20 active:scale-95">
-                      Mark as Done
+                    <button
+                      onClick={handleMarkDone}
+                      disabled={!todaysTarget || remainingToday <= 0}
+                      className="w-full sm:w-auto px-6 py-3 rounded-2xl bg-indigo-600 hover:bg-indigo-700 disabled:bg-emerald-500 disabled:shadow-emerald-500/20 disabled:active:scale-100 text-white font-black text-sm transition-all shadow-lg shadow-indigo-500/20 active:scale-95"
+                    >
+                      {todaysTarget && remainingToday <= 0 ? 'Done for Today' : 'Mark as Done'}
                     </button>
                   </div>
                 </div>
+
+                <form onSubmit={handlePartialSubmit} className="relative mt-6 pt-6 border-t border-gray-100 dark:border-gray-800 flex flex-col sm:flex-row sm:items-center gap-3">
+                  <p className="text-[11px] font-bold text-gray-400 uppercase tracking-wide sm:mr-auto">
+                    {loggedToday > 0 ? `Logged today: ${formatGoal(data, loggedToday)}` : 'Read a different amount?'}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <SessionTimer onStop={handleTimerStop} />
+                    <input
+                      type="number"
+                      min={1}
+                      value={partialPages}
+                      onChange={(e) => setPartialPages(e.target.value)}
+                      placeholder={data.unit === 'pages' ? 'Pages' : data.unit === 'duration' ? 'Min' : UNIT_INFO[data.unit].label}
+                      aria-label={data.unit === 'duration' ? 'Minutes listened' : `${UNIT_INFO[data.unit].label} read`}
+                      className="w-24 px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-indigo-500 transition-all text-[14px] font-black outline-none tabular-nums placeholder:text-gray-300 dark:placeholder:text-gray-700"
+                    />
+                    {data.unit !== 'duration' && <input
+                      type="number"
+                      min={1}
+                      value={partialMinutes}
+                      onChange={(e) => setPartialMinutes(e.target.value)}
+                      placeholder="Min"
+                      aria-label="Minutes spent (optional)"
+                      className="w-20 px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-indigo-500 transition-all text-[14px] font-black outline-none tabular-nums placeholder:text-gray-300 dark:placeholder:text-gray-700"
+                    />}
+                    <button
+                      type="submit"
+                      disabled={!partialPages || data.pagesRead >= data.totalPages}
+                      className="px-4 py-2 rounded-xl bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-400 border border-indigo-100 dark:border-indigo-900/30 font-black text-xs uppercase tracking-widest transition-all hover:bg-indigo-100 dark:hover:bg-indigo-900/40 disabled:opacity-40 active:scale-95"
+                    >
+                      Log
+                    </button>
+                  </div>
+                </form>
              </div>
           </div>
 
@@ -242,15 +511,20 @@ const App: React.FC = () => {
           <div className="bg-gradient-to-br from-gray-900 to-black dark:from-[#18181B] dark:to-[#09090B] rounded-[2rem] p-6 text-white shadow-2xl relative overflow-hidden flex flex-col justify-between">
             <div className="absolute top-0 left-0 w-full h-full bg-[radial-gradient(circle_at_50%_120%,rgba(99,102,241,0.3),transparent)]" />
             <div className="relative z-10">
-              <BookMarked className="w-8 h-8 text-indigo-400 mb-4" />
+              {data.coverUrl ? (
+                <img src={data.coverUrl} alt={`Cover of ${data.bookTitle}`} className="w-14 h-20 rounded-lg object-cover shadow-lg shadow-black/40 mb-4" />
+              ) : (
+                <BookMarked className="w-8 h-8 text-indigo-400 mb-4" />
+              )}
               <h3 className="text-2xl font-black tracking-tight leading-tight mb-1">{data.bookTitle || "No Title Set"}</h3>
-              <p className="text-xs font-bold text-gray-400 uppercase tracking-widest">Active Adventure</p>
+              {data.author && <p className="text-sm font-bold text-gray-300 mb-1">by {data.author}</p>}
+              <p className="text-xs font-bold text-gray-400 uppercase tracking-widest">{data.status === 'reading' ? 'Active Adventure' : BOOK_STATUSES.find(s => s.value === data.status)?.label}</p>
             </div>
             
             <div className="relative z-10 pt-8">
               <div className="flex justify-between items-end mb-2">
-                <span className="text-3xl font-black tabular-nums">{data.totalPages > 0 ? Math.round((data.pagesRead / data.totalPages) * 100) : 0}%</span>
-                <span className="text-[10px] font-black text-gray-500 uppercase">{data.pagesRead} / {data.totalPages} pages</span>
+                <span className="text-3xl font-black tabular-nums">{data.totalPages > 0 ? Math.min(100, Math.round((data.pagesRead / data.totalPages) * 100)) : 0}%</span>
+                <span className="text-[10px] font-black text-gray-500 uppercase">{formatPosition(data.unit, data.pagesRead)} / {formatPosition(data.unit, data.totalPages)}{data.unit === 'pages' || data.unit === 'locations' ? ` ${UNIT_INFO[data.unit].noun}` : ''}</span>
               </div>
               <div className="h-2 w-full bg-white/10 rounded-full overflow-hidden">
                 <div 
@@ -262,6 +536,10 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {bookRetrospective && (
+          <ReportCardView card={toBookReportCard(bookRetrospective)} fileStem={`${toFileSlug(data.bookTitle, 'book')}-wrapped`} />
+        )}
+
         {/* Input & Metrics Cards */}
         <div className="grid grid-cols-1 md:grid-cols-12 gap-6">
           
@@ -283,28 +561,62 @@ const App: React.FC = () => {
                     className="w-full px-4 py-3 rounded-2xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-indigo-500 focus:bg-white dark:focus:bg-[#18181B] transition-all text-[15px] font-bold outline-none placeholder:text-gray-300 dark:placeholder:text-gray-700"
                     placeholder="E.g. The Great Gatsby"
                   />
+                  <BookLookup onSelect={handleMetadataSelect} />
+                </div>
+
+                <div className="flex p-1 rounded-2xl bg-gray-50 dark:bg-[#09090B] text-[11px] font-black uppercase tracking-widest">
+                  {READING_UNITS.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => handleUnitChange(option.value)}
+                      disabled={data.unit !== option.value && !canChangeUnit(data)}
+                      title={canChangeUnit(data) ? undefined : 'The unit is fixed once sessions, chapters or notes are recorded, and while in a group plan'}
+                      className={`flex-1 px-2 py-2 rounded-xl transition-all disabled:opacity-40 disabled:cursor-not-allowed ${data.unit === option.value ? 'bg-white dark:bg-[#18181B] text-indigo-600 dark:text-indigo-400 shadow-sm' : 'text-gray-400 hover:text-gray-600 dark:hover:text-gray-300'}`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <label className="text-[11px] font-bold text-gray-400 uppercase ml-2 tracking-wide">Total Pages</label>
-                    <input 
-                      type="number" 
-                      name="totalPages"
-                      value={data.totalPages || ''}
-                      onChange={handleInputChange}
-                      className="w-full px-4 py-3 rounded-2xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-purple-500 transition-all text-[15px] font-black outline-none tabular-nums"
-                    />
+                    <label className="text-[11px] font-bold text-gray-400 uppercase ml-2 tracking-wide">{UNIT_INFO[data.unit].totalLabel}</label>
+                    {data.unit === 'duration' ? (
+                      <DurationInput
+                        minutes={data.totalPages}
+                        onChange={(totalPages) => updatePlan(prev => ({ ...prev, totalPages }), 'totalPages')}
+                        aria-label="Audiobook length"
+                        className="w-full px-4 py-3 rounded-2xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-purple-500 transition-all text-[15px] font-black outline-none tabular-nums"
+                      />
+                    ) : (
+                      <input 
+                        type="number" 
+                        name="totalPages"
+                        value={data.totalPages || ''}
+                        onChange={handleInputChange}
+                        disabled={data.unit === 'percent'}
+                        className="w-full px-4 py-3 rounded-2xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-purple-500 transition-all text-[15px] font-black outline-none tabular-nums disabled:text-gray-400"
+                      />
+                    )}
                   </div>
                   <div className="space-y-2">
-                    <label className="text-[11px] font-bold text-gray-400 uppercase ml-2 tracking-wide">Read So Far</label>
-                    <input 
-                      type="number" 
-                      name="pagesRead"
-                      value={data.pagesRead || ''}
-                      onChange={handleInputChange}
-                      className="w-full px-4 py-3 rounded-2xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-emerald-500 transition-all text-[15px] font-black outline-none tabular-nums"
-                    />
+                    <label className="text-[11px] font-bold text-gray-400 uppercase ml-2 tracking-wide">{UNIT_INFO[data.unit].progressLabel}</label>
+                    {data.unit === 'duration' ? (
+                      <DurationInput
+                        minutes={data.pagesRead}
+                        onChange={(pagesRead) => updatePlan(prev => ({ ...prev, pagesRead }), 'pagesRead')}
+                        aria-label="Position in the audiobook"
+                        className="w-full px-4 py-3 rounded-2xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-emerald-500 transition-all text-[15px] font-black outline-none tabular-nums"
+                      />
+                    ) : (
+                      <input 
+                        type="number" 
+                        name="pagesRead"
+                        value={data.pagesRead || ''}
+                        onChange={handleInputChange}
+                        className="w-full px-4 py-3 rounded-2xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-emerald-500 transition-all text-[15px] font-black outline-none tabular-nums"
+                      />
+                    )}
                   </div>
                 </div>
 
@@ -320,17 +632,56 @@ const App: React.FC = () => {
                     />
                   </div>
                   <div className="space-y-2">
-                    <label className="text-[11px] font-bold text-gray-400 uppercase ml-2 tracking-wide">Daily Goal</label>
+                    <div className="flex items-center justify-between gap-2">
+                      <label className="text-[11px] font-bold text-gray-400 uppercase ml-2 tracking-wide">
+                        Daily Goal{data.unit === 'duration' || data.minutesPerDay !== undefined ? ' (min)' : data.unit === 'percent' ? ' (%)' : ''}
+                      </label>
+                      {canPlanByTime(data) && (
+                        <div className="flex p-0.5 rounded-lg bg-gray-50 dark:bg-[#09090B] text-[9px] font-black uppercase tracking-widest">
+                          {[{ label: UNIT_INFO[data.unit].label, byTime: false }, { label: 'Time', byTime: true }].map(option => (
+                            <button
+                              key={option.label}
+                              onClick={() => handleGoalModeChange(option.byTime)}
+                              className={`px-2 py-1 rounded-md transition-all ${(data.minutesPerDay !== undefined) === option.byTime ? 'bg-white dark:bg-[#18181B] text-indigo-600 dark:text-indigo-400 shadow-sm' : 'text-gray-400 hover:text-gray-600 dark:hover:text-gray-300'}`}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
                     <input 
                       type="number" 
-                      name="pagesPerDay"
-                      value={data.pagesPerDay || ''}
+                      name={data.minutesPerDay !== undefined && canPlanByTime(data) ? 'minutesPerDay' : 'pagesPerDay'}
+                      value={(data.minutesPerDay !== undefined && canPlanByTime(data) ? data.minutesPerDay : data.pagesPerDay) || ''}
                       onChange={handleInputChange}
                       className="w-full px-4 py-3 rounded-2xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-orange-500 transition-all text-[15px] font-black outline-none tabular-nums"
                     />
                   </div>
                 </div>
 
+                {data.minutesPerDay !== undefined && canPlanByTime(data) && (
+                  <p className="ml-2 text-xs font-bold text-gray-400 dark:text-gray-500">
+                    {readingSpeed !== null
+                      ? `About ${formatAmountWithUnit(data.unit, getDailyPageGoal(data))} a day at your ${formatReadingSpeed(data, readingSpeed)}.`
+                      : `Time a few sessions to measure your speed; until then the plan uses ${formatAmountWithUnit(data.unit, data.pagesPerDay)} a day.`}
+                  </p>
+                )}
+
+                {data.unit === 'duration' && (
+                  <div className="flex items-center justify-between gap-4">
+                    <label htmlFor="playbackSpeed" className="text-[11px] font-bold text-gray-400 uppercase ml-2 tracking-wide">Playback Speed</label>
+                    <select
+                      id="playbackSpeed"
+                      value={data.playbackSpeed}
+                      onChange={(e) => updatePlan(prev => ({ ...prev, playbackSpeed: parseFloat(e.target.value) }), 'playbackSpeed')}
+                      className="px-4 py-2 rounded-2xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-indigo-500 transition-all text-[14px] font-black outline-none tabular-nums"
+                    >
+                      {PLAYBACK_SPEEDS.map(speed => <option key={speed} value={speed}>{formatSpeed(speed)}</option>)}
+                    </select>
+                  </div>
+                )}
+
                 <div className="pt-2">
                   <label className="group flex items-center gap-3 p-3 rounded-2xl bg-violet-50 dark:bg-violet-900/10 border border-violet-100 dark:border-violet-900/20 cursor-pointer hover:bg-violet-100 dark:hover:bg-violet-900/20 transition-all">
                     <div className="relative flex items-center">
@@ -360,8 +711,8 @@ const App: React.FC = () => {
               </div>
               <div className="mt-8">
                 <span className="text-[10px] font-black uppercase tracking-[0.2em] opacity-80">Remaining</span>
-                <div className="text-5xl font-black tabular-nums tracking-tighter">{pagesLeft}</div>
-                <div className="text-[11px] font-bold opacity-90 mt-1">pages until finish</div>
+                <div className="text-5xl font-black tabular-nums tracking-tighter">{data.unit === 'duration' ? formatDuration(toGoalAmount(data, pagesLeft)) : pagesLeft}</div>
+                <div className="text-[11px] font-bold opacity-90 mt-1">{data.unit === 'duration' ? `of listening at ${formatSpeed(data.playbackSpeed)}` : `${UNIT_INFO[data.unit].noun} until finish`}</div>
               </div>
             </div>
 
@@ -372,30 +723,151 @@ const App: React.FC = () => {
               </div>
               <div className="mt-8">
                 <span className="text-[10px] font-black uppercase tracking-[0.2em] opacity-80">Current Pace</span>
-                <div className="text-5xl font-black tabular-nums tracking-tighter">{data.pagesPerDay}</div>
-                <div className="text-[11px] font-bold opacity-90 mt-1">pages per day</div>
+                <div className="text-5xl font-black tabular-nums tracking-tighter">{getDailyPageGoal(data)}</div>
+                <div className="text-[11px] font-bold opacity-90 mt-1">
+                  {UNIT_INFO[data.unit].noun} per day{isPlanningByTime(data) && ` · ${formatAmount('duration', data.minutesPerDay ?? 0)} goal`}
+                </div>
               </div>
             </div>
 
             <div className="col-span-2 group bg-gradient-to-br from-emerald-500 to-teal-600 p-6 rounded-[2rem] shadow-lg shadow-emerald-500/20 flex flex-col justify-between text-white overflow-hidden relative">
               <div className="absolute top-[-10%] right-[-10%] w-40 h-40 bg-white/10 rounded-full blur-3xl group-hover:scale-125 transition-transform duration-700" />
-              <div className="bg-white/20 p-2 rounded-xl w-fit">
-                <Trophy className="w-5 h-5" />
+              <div className="flex items-center justify-between">
+                <div className="bg-white/20 p-2 rounded-xl w-fit">
+                  <Trophy className="w-5 h-5" />
+                </div>
+                <div className="relative flex p-1 rounded-xl bg-white/20 text-[10px] font-black uppercase tracking-widest">
+                  {[{ label: 'Plan', value: false }, { label: 'Actual', value: true }].map(option => (
+                    <button
+                      key={option.label}
+                      onClick={() => setProjectFromVelocity(option.value)}
+                      title={option.value ? 'Project from your observed reading velocity' : 'Project from your daily goal'}
+                      className={`px-3 py-1 rounded-lg transition-all ${projectFromVelocity === option.value ? 'bg-white text-emerald-600' : 'text-white/80 hover:text-white'}`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
               </div>
               <div className="flex items-end justify-between mt-8">
                 <div>
                   <span className="text-[10px] font-black uppercase tracking-[0.2em] opacity-80">Projected Finish</span>
-                  <div className="text-3xl font-black leading-tight mt-1">{estimatedFinishDate === 'N/A' ? '--' : estimatedFinishDate}</div>
+                  <div className="text-3xl font-black leading-tight mt-1">{projectedFinishDate ? formatScheduleDate(projectedFinishDate) : '--'}</div>
+                  {projectFromVelocity && (
+                    <div className="text-[11px] font-bold opacity-90 mt-1">
+                      {velocity > 0 ? `at ${observedPace >= 10 ? Math.round(observedPace) : observedPace.toFixed(1)} ${UNIT_INFO[data.unit].noun} per day observed` : 'no recent reading logged'}
+                    </div>
+                  )}
                 </div>
                 <div className="text-right">
                   <span className="text-[10px] font-black uppercase tracking-[0.2em] opacity-80">Days Left</span>
-                  <div className="text-3xl font-black tabular-nums">{schedule.length}</div>
+                  <div className="text-3xl font-black tabular-nums">{projectedDaysLeft}</div>
                 </div>
               </div>
             </div>
           </div>
         </div>
 
+        <ReadingAnalytics stats={readingStats} history={readingHistory} today={today} />
+
+        {yearInReview && (
+          <ReportCardView card={toYearReportCard(yearInReview)} fileStem={`bookbound-${yearInReview.year}-in-review`}>
+            {reviewYears.length > 1 && (
+              <select
+                value={yearInReview.year}
+                onChange={(e) => setReviewYear(Number(e.target.value))}
+                aria-label="Year"
+                className="px-3 py-2 rounded-xl bg-white/20 text-[11px] font-black uppercase tracking-widest outline-none [&>option]:text-gray-900"
+              >
+                {reviewYears.map(year => <option key={year} value={year}>{year}</option>)}
+              </select>
+            )}
+          </ReportCardView>
+        )}
+
+        <ChallengesCard
+          challenges={library.challenges}
+          books={library.books}
+          today={today}
+          nextBook={getNextQueuedBook(library.books)}
+          challengePace={challengePace}
+          onChange={(challenges) => setLibrary(prev => ({ ...prev, challenges }))}
+          onApplyPace={(bookId, pagesPerDay) => setLibrary(prev => ({
+            ...prev,
+            books: prev.books.map(book => book.id === bookId ? { ...book, pagesPerDay, minutesPerDay: undefined } : book)
+          }))}
+        />
+
+        <QueuePanel
+          books={library.books}
+          queue={library.queue}
+          projections={queueProjections}
+          activeBookId={data.id}
+          onChange={(queue) => setLibrary(prev => ({ ...prev, queue }))}
+          onSelect={handleSelectBook}
+        />
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+          <AvailabilityEditor
+            availability={library.availability}
+            onChange={(availability) => setLibrary(prev => ({ ...prev, availability }))}
+          />
+          <ChapterEditor
+            book={data}
+            onChange={(changes) => updateActiveBook(prev => ({ ...prev, ...changes }))}
+          />
+        </div>
+
+        <NotesPanel
+          key={`notes-${data.id}`}
+          book={data}
+          books={library.books}
+          today={today}
+          onChange={(notes) => updateActiveBook(prev => ({ ...prev, notes }))}
+          onSelectBook={handleSelectBook}
+        />
+
+        {schedule.length > 0 && (
+          <PlanBalanceCard
+            balance={planBalance}
+            unit={data.unit}
+            strategy={data.rebalanceStrategy}
+            catchUpDays={data.catchUpDays}
+            onStrategyChange={(rebalanceStrategy) => updateActiveBook(prev => ({ ...prev, rebalanceStrategy }))}
+            onCatchUpDaysChange={(catchUpDays) => updateActiveBook(prev => ({ ...prev, catchUpDays }))}
+          />
+        )}
+
+        {pagesLeft > 0 && data.totalPages > 0 && (
+          <ScenarioPanel
+            key={`scenarios-${data.id}`}
+            book={data}
+            availability={library.availability}
+            today={today}
+            onAdopt={(book, availability) => setLibrary(prev => ({
+              ...prev,
+              availability,
+              books: prev.books.map(b => b.id === book.id ? book : b)
+            }))}
+          />
+        )}
+
+        {pagesLeft > 0 && data.totalPages > 0 && (
+          <CoachPanel
+            coach={coach}
+            context={coachContext}
+            onApplyPace={(pagesPerDay) => updateActiveBook(prev => rebaseline({ ...prev, pagesPerDay, minutesPerDay: undefined }))}
+          />
+        )}
+
+        <GroupPanel
+          key={`group-${data.id}`}
+          book={data}
+          today={today}
+          onJoin={(plan, membership) => updateActiveBook(prev => applyGroupPlan(prev, plan, membership))}
+          onLeave={() => updateActiveBook(({ group, ...prev }) => prev)}
+        />
+
         {/* Roadmap Section */}
         <section className="bg-white dark:bg-[#18181B] rounded-[2.5rem] border border-gray-100 dark:border-gray-800 shadow-2xl shadow-indigo-500/5 overflow-hidden">
           <div className="px-8 py-8 border-b border-gray-100 dark:border-gray-800 bg-gradient-to-r from-indigo-50/30 to-transparent dark:from-indigo-950/10 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
@@ -405,51 +877,106 @@ const App: React.FC = () => {
               </h3>
               <p className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest">A day-by-day guide to your reading goal</p>
             </div>
-            <div className="hidden sm:block px-4 py-2 rounded-2xl bg-indigo-50 dark:bg-indigo-900/20 text-[11px] font-black text-indigo-600 dark:text-indigo-400 border border-indigo-100 dark:border-indigo-900/30 uppercase tracking-widest">
-              Generated Automatically
+            <div className="flex items-center gap-2">
+              {queueProjections.length > 1 && (
+                <div className="flex p-1 rounded-2xl bg-gray-50 dark:bg-[#09090B] border border-gray-200 dark:border-gray-800 text-[11px] font-black uppercase tracking-widest">
+                  {[{ label: 'This Book', value: 'book' as const }, { label: 'Queue', value: 'queue' as const }].map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setRoadmapView(option.value)}
+                      className={`px-3 py-1.5 rounded-xl transition-all ${roadmapView === option.value ? 'bg-white dark:bg-[#18181B] text-indigo-600 dark:text-indigo-400 shadow-sm' : 'text-gray-400'}`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="hidden sm:block px-4 py-2 rounded-2xl bg-indigo-50 dark:bg-indigo-900/20 text-[11px] font-black text-indigo-600 dark:text-indigo-400 border border-indigo-100 dark:border-indigo-900/30 uppercase tracking-widest">
+                Generated Automatically
+              </div>
+              {schedule.length > 0 && (
+                <button
+                  onClick={handleExportCsv}
+                  title="Download the roadmap as CSV"
+                  className="flex items-center gap-2 px-4 py-2 rounded-2xl bg-white dark:bg-[#09090B] text-[11px] font-black text-gray-500 dark:text-gray-400 border border-gray-200 dark:border-gray-800 uppercase tracking-widest hover:border-indigo-300 dark:hover:border-indigo-800 transition-all active:scale-95"
+                >
+                  <Download className="w-3.5 h-3.5" /> CSV
+                </button>
+              )}
+              {upcomingSchedule.length > 0 && <CalendarExportMenu book={data} items={upcomingSchedule} onExported={state => updateActiveBook(prev => ({ ...prev, calendarExport: state }))} />}
             </div>
           </div>
 
+          {roadmapView === 'book' && schedule.length > 0 && (
+            <div className="px-8 py-6 border-b border-gray-100 dark:border-gray-800">
+              <ProgressChart data={progressChart} unit={data.unit} />
+            </div>
+          )}
+
           <div className="overflow-x-auto">
             <table className="w-full text-left border-collapse">
               <thead>
                 <tr className="bg-gray-50 dark:bg-[#09090B] text-[10px] font-black text-gray-400 uppercase tracking-widest">
                   <th className="pl-10 pr-4 py-5">Scheduled Date</th>
                   <th className="px-4 py-5">Daily Target</th>
-                  <th className="px-4 py-5">Page Range</th>
+                  <th className="px-4 py-5">{roadmapView === 'queue' ? 'Range' : UNIT_INFO[data.unit].rangeLabel}</th>
                   <th className="px-4 py-5 text-right pr-10">Progress</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-50 dark:divide-gray-800/50">
-                {schedule.length > 0 ? schedule.slice(0, 45).map((item, idx) => (
-                  <tr key={idx} className={`group transition-all hover:bg-indigo-50/40 dark:hover:bg-indigo-900/5 ${item.date === format(today, 'MMM dd, EEE') ? 'bg-indigo-50/20 dark:bg-indigo-900/10' : ''}`}>
+                {roadmapRows.length > 0 ? roadmapRows.slice(0, 45).map(({ book, item, minutes }) => (
+                  <tr key={`${book.id}-${item.date}`} className={`group transition-all hover:bg-indigo-50/40 dark:hover:bg-indigo-900/5 ${item.date === todayKey ? 'bg-indigo-50/20 dark:bg-indigo-900/10' : ''}`}>
                     <td className="pl-10 pr-4 py-6">
                       <div className="flex items-center gap-4">
                         <div className={`w-3 h-3 rounded-full transition-transform group-hover:scale-125 ${
-                          item.date === format(today, 'MMM dd, EEE') 
-                            ? 'bg-orange-500 shadow-[0_0_12px_rgba(249,115,22,0.4)]' 
-                            : 'bg-indigo-200 dark:bg-indigo-800'
+                          item.status !== 'pending'
+                            ? STATUS_STYLES[item.status].dot
+                            : item.date === todayKey 
+                              ? 'bg-orange-500 shadow-[0_0_12px_rgba(249,115,22,0.4)]' 
+                              : 'bg-indigo-200 dark:bg-indigo-800'
                         }`} />
-                        <span className={`text-[15px] font-bold whitespace-nowrap ${item.date === format(today, 'MMM dd, EEE') ? 'text-indigo-600 dark:text-indigo-400' : 'text-gray-700 dark:text-gray-300'}`}>
-                          {item.date} {item.date === format(today, 'MMM dd, EEE') && <span className="ml-2 text-[10px] font-black uppercase text-orange-500">Today</span>}
+                        <span className={`text-[15px] font-bold whitespace-nowrap ${item.date === todayKey ? 'text-indigo-600 dark:text-indigo-400' : 'text-gray-700 dark:text-gray-300'}`}>
+                          {formatScheduleDate(item.date)} {item.date === todayKey && <span className="ml-2 text-[10px] font-black uppercase text-orange-500">Today</span>}
+                          {roadmapView === 'queue' && (
+                            <span className="block max-w-[12rem] truncate text-[11px] font-black text-gray-400 uppercase tracking-wide">{book.bookTitle || 'Untitled Book'}</span>
+                          )}
                         </span>
                       </div>
                     </td>
                     <td className="px-4 py-6">
                       <span className="inline-flex items-center px-3 py-1.5 rounded-xl bg-orange-100 dark:bg-orange-900/30 text-xs font-black text-orange-600 dark:text-orange-400 border border-orange-200 dark:border-orange-900/30">
-                        +{item.pagesToReadToday}
+                        +{formatGoal(book, item.pagesToReadToday, false)}
                       </span>
+                      {minutes !== null && (
+                        <span className="ml-2 text-[11px] font-black text-gray-400 dark:text-gray-500 tabular-nums">{formatReadingTime(minutes)}</span>
+                      )}
+                      {item.status !== 'pending' && (
+                        <span className={`ml-2 inline-flex items-center px-2 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest ${STATUS_STYLES[item.status].chip}`}>
+                          {item.status === 'partial' ? `${formatGoal(book, item.pagesLogged, false)}/${formatGoal(book, item.pagesToReadToday, false)}` : STATUS_STYLES[item.status].label}
+                        </span>
+                      )}
                     </td>
                     <td className="px-4 py-6">
                       <div className="flex items-center gap-3">
                         <span className="text-[15px] font-black tabular-nums text-gray-900 dark:text-white tracking-tight">
-                          {item.startPage}
+                          {formatPosition(book.unit, getRangeStart(book.unit, item.startPage))}
                         </span>
                         <div className="h-[2px] w-6 bg-gray-200 dark:bg-gray-700 rounded-full" />
                         <span className="text-[15px] font-black tabular-nums text-indigo-600 dark:text-indigo-400 tracking-tight">
-                          {item.endPage}
+                          {formatPosition(book.unit, item.endPage)}
                         </span>
+                        {item.chapterLabel && (
+                          <span className="ml-1 px-2 py-1 rounded-lg bg-purple-50 dark:bg-purple-900/20 text-[10px] font-black text-purple-600 dark:text-purple-400 uppercase tracking-widest whitespace-nowrap">
+                            {item.chapterLabel}
+                          </span>
+                        )}
                       </div>
+                      {getNotesInRange(book.notes, item.startPage, item.endPage).slice(0, 3).map(note => (
+                        <p key={note.id} className="mt-2 max-w-xs truncate text-[11px] font-bold text-gray-400 dark:text-gray-500" title={note.text}>
+                          <span className="font-black text-indigo-400">{formatNoteAnchor(book.unit, note)}</span>{' '}
+                          {note.kind === 'quote' ? `“${note.text}”` : note.text}
+                        </p>
+                      ))}
                     </td>
                     <td className="px-4 py-6 text-right pr-10">
                        <div className="flex flex-col items-end">
@@ -476,12 +1003,34 @@ const App: React.FC = () => {
               </tbody>
             </table>
           </div>
-          {schedule.length > 45 && (
+          {roadmapView === 'book' && plan.truncated && (
+            <div className="px-8 py-5 bg-rose-50/50 dark:bg-rose-950/10 text-center border-t border-rose-100 dark:border-rose-900/30">
+              <p className="text-[11px] font-black text-rose-500 uppercase tracking-[0.2em]">This plan stops after a year without reaching the end of the book. Raise your daily goal or add reading days.</p>
+            </div>
+          )}
+          {roadmapRows.length > 45 && (
             <div className="px-8 py-5 bg-gray-50/50 dark:bg-[#09090B]/50 text-center border-t border-gray-100 dark:border-gray-800">
               <p className="text-[11px] font-black text-gray-400 uppercase tracking-[0.4em]">Showing the next 45 days of your journey</p>
             </div>
           )}
         </section>
+
+        <ReminderCard settings={reminder} preview={reminderMessage} onChange={setReminder} />
+
+        <DataTransferCard
+          library={library}
+          theme={darkMode ? 'dark' : 'light'}
+          quarantined={quarantined}
+          onDiscardQuarantined={(key) => {
+            store.discardQuarantined(key)
+              .then(() => setQuarantined(prev => prev.filter(record => record.key !== key)))
+              .catch(e => console.error("Failed to discard quarantined data", e));
+          }}
+          onRestore={(restored, theme) => {
+            setLibrary(restored);
+            if (theme) setDarkMode(theme === 'dark');
+          }}
+        />
       </main>
 
       <footer className="relative z-10 max-w-5xl mx-auto px-4 py-16 text-center">
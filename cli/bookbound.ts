@@ -0,0 +1,261 @@
+#!/usr/bin/env node
+// BookBound command-line companion: plans and logs reading from a terminal. Data lives in a JSON file in
+// the web app's backup format, so the same file can be imported into the app and app backups used here.
+// Build with `npm run build:cli`, then run `node dist-cli/bookbound.js <command>` or `npm link` it as `bookbound`.
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { format, isValid, parseISO } from 'date-fns';
+import { Book, Library } from '../types';
+import { BackupValidationError, createBackup, parseBackup, scheduleToCsv } from '../services/backupService';
+import { createBook, createEmptyLibrary } from '../services/libraryService';
+import { Planner, createPlanner, formatScheduleDate, getEstimatedFinishDate, getUpcomingItems } from '../services/planner';
+import { logSession, pagesLoggedOn } from '../services/sessionService';
+import { exportCalendar } from '../services/icsService';
+import { estimateReadingMinutes, formatReadingTime, getDailyPageGoal, isPlanningByTime } from '../services/speedService';
+import { UNIT_INFO, formatAmount, formatAmountWithUnit, formatGoal, formatPosition, formatRange, fromGoalAmount } from '../services/unitService';
+
+const USAGE = `Usage: bookbound <command> [options]
+
+Commands:
+  plan                 Show the plan, or change it:
+                         --title <text>  --pages <total>  --read <so far>  --by <yyyy-MM-dd>
+                         --pace <per day>  --minutes <per day>  --new (start another book)
+  log <amount>         Log reading for today; --minutes <n> records how long it took
+  today                Show today's goal and what is left of it
+  schedule             Print the roadmap; --format csv|ics|json (default csv)
+  books                List books; --use <id or title> makes one the active book
+
+Options:
+  --file <path>        Data file (default: $BOOKBOUND_FILE or ~/bookbound.json)
+  --book <id or title> Work on this book instead of the active one
+  --help               Show this help`;
+
+const SCHEDULE_FORMATS = ['csv', 'ics', 'json'] as const;
+
+class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+interface DataFile {
+  path: string;
+  library: Library;
+  theme: 'light' | 'dark';
+}
+
+const readDataFile = async (path: string): Promise<DataFile> => {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return { path, library: createEmptyLibrary(), theme: 'light' };
+    throw e;
+  }
+  const backup = parseBackup(text);
+  return { path, library: backup.library, theme: backup.theme };
+};
+
+const writeDataFile = (file: DataFile) =>
+  writeFile(file.path, JSON.stringify(createBackup(file.library, file.theme), null, 2) + '\n', 'utf8');
+
+// Matches an id (or the start of one) first, then a unique piece of a title
+const findBook = (library: Library, query?: string): Book => {
+  if (!query) {
+    const active = library.books.find(book => book.id === library.activeBookId) ?? library.books[0];
+    if (!active) throw new CliError('the data file has no books yet; add one with `bookbound plan --new`');
+    return active;
+  }
+  const byId = library.books.filter(book => book.id.startsWith(query));
+  if (byId.length === 1) return byId[0];
+  const byTitle = library.books.filter(book => book.bookTitle.toLowerCase().includes(query.toLowerCase()));
+  if (byTitle.length === 1) return byTitle[0];
+  throw new CliError(byTitle.length > 1 ? `"${query}" matches more than one book` : `no book matches "${query}"`);
+};
+
+const replaceBook = (library: Library, book: Book): Library => ({
+  ...library,
+  books: library.books.some(b => b.id === book.id) ? library.books.map(b => b.id === book.id ? book : b) : [...library.books, book],
+});
+
+// `label` names the value in errors: the flag, or the placeholder from USAGE for a positional argument
+const parseCount = (label: string, value?: string) => {
+  if (value === undefined) return undefined;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) throw new CliError(`${label} must be a whole number`);
+  return count;
+};
+
+const parseDateKey = (name: string, value?: string) => {
+  if (value === undefined) return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || !isValid(parseISO(value))) throw new CliError(`--${name} must be a yyyy-MM-dd date`);
+  return value;
+};
+
+const amountLabel = (book: Book, amount: number) => {
+  const minutes = book.unit === 'duration' ? null : estimateReadingMinutes(book, amount);
+  return `${formatGoal(book, amount)}${minutes !== null ? `, ${formatReadingTime(minutes)}` : ''}`;
+};
+
+const describePlan = (book: Book, library: Library, planner: Planner) => {
+  const plan = planner.buildPlan(book, library.availability);
+  const finish = getEstimatedFinishDate(plan);
+  const pace = getDailyPageGoal(book);
+  return [
+    book.bookTitle || 'Untitled Book',
+    `  ${formatPosition(book.unit, book.pagesRead)} of ${formatAmountWithUnit(book.unit, book.totalPages)} read · ${formatGoal(book, Math.max(0, book.totalPages - book.pagesRead))} left`,
+    isPlanningByTime(book)
+      ? `  Goal: ${formatAmount('duration', book.minutesPerDay ?? 0)} of reading a day (${formatGoal(book, pace)})`
+      : `  Goal: ${amountLabel(book, pace)} a day`,
+    `  Deadline: ${formatScheduleDate(book.targetFinishDate)} · projected finish: ${
+      plan.truncated ? 'not within a year' : finish ? `${formatScheduleDate(finish)} (${getUpcomingItems(plan).length} reading days)` : '--'
+    }`,
+  ].join('\n');
+};
+
+const run = async (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      file: { type: 'string' },
+      book: { type: 'string' },
+      title: { type: 'string' },
+      pages: { type: 'string' },
+      read: { type: 'string' },
+      by: { type: 'string' },
+      pace: { type: 'string' },
+      minutes: { type: 'string' },
+      new: { type: 'boolean' },
+      format: { type: 'string' },
+      use: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  const [command, ...rest] = positionals;
+  if (!command || values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const file = await readDataFile(values.file || process.env.BOOKBOUND_FILE || join(homedir(), 'bookbound.json'));
+  const planner = createPlanner();
+  const today = planner.today();
+  const { library } = file;
+
+  switch (command) {
+    case 'plan': {
+      const base = values.new ? createBook() : findBook(library, values.book);
+      const edits: Partial<Book> = {};
+      if (values.title !== undefined) edits.bookTitle = values.title;
+      if (values.pages !== undefined) edits.totalPages = parseCount('--pages', values.pages);
+      if (values.read !== undefined) edits.pagesRead = parseCount('--read', values.read);
+      if (values.by !== undefined) edits.targetFinishDate = parseDateKey('by', values.by);
+      if (values.minutes !== undefined) edits.minutesPerDay = parseCount('--minutes', values.minutes) || undefined;
+      const pace = parseCount('--pace', values.pace);
+      if (pace === 0) throw new CliError('--pace must be more than 0');
+      const total = edits.totalPages ?? base.totalPages;
+      if (edits.pagesRead !== undefined && edits.pagesRead > total) {
+        throw new CliError(`--read can't be more than the book's length (${formatAmountWithUnit(base.unit, total)}); set --pages too if it has changed`);
+      }
+
+      const changed = Object.keys(edits) as (keyof Book)[];
+      let book = changed.length > 0 || values.new ? planner.replanBook({ ...base, ...edits }, changed, library.availability) : base;
+      // An explicit pace wins over the one worked out from the deadline
+      if (pace !== undefined) book = planner.replanBook({ ...book, pagesPerDay: pace, minutesPerDay: undefined }, ['pagesPerDay'], library.availability);
+
+      if (book !== base) {
+        file.library = { ...replaceBook(library, book), activeBookId: values.new ? book.id : library.activeBookId };
+        await writeDataFile(file);
+      }
+      console.log(describePlan(book, file.library, planner));
+      return;
+    }
+
+    case 'log': {
+      const book = findBook(library, values.book);
+      const amount = parseCount('<amount>', rest[0]);
+      if (!amount) throw new CliError('say how much you read, e.g. `bookbound log 25`');
+      if (book.pagesRead >= book.totalPages) throw new CliError(`${book.bookTitle || 'this book'} is already finished`);
+
+      // Audiobooks are logged as listening time, which is also the session length
+      const minutes = parseCount('--minutes', values.minutes);
+      const updated = book.unit === 'duration'
+        ? logSession(book, fromGoalAmount(book, amount), today, amount)
+        : logSession(book, amount, today, minutes || undefined);
+      file.library = replaceBook(library, updated);
+      await writeDataFile(file);
+
+      const session = updated.sessions[updated.sessions.length - 1];
+      console.log(`Logged ${formatRange(book.unit, session.startPage, session.endPage)} of ${book.bookTitle || 'Untitled Book'} (${formatAmountWithUnit(book.unit, session.pagesRead)}).`);
+      if (updated.status === 'finished' && book.status !== 'finished') console.log('Finished the book!');
+      return;
+    }
+
+    case 'today': {
+      const book = findBook(library, values.book);
+      const target = planner.getTodaysTarget(planner.buildPlan(book, library.availability));
+      console.log(`${format(today, 'EEE, MMM d')} · ${book.bookTitle || 'Untitled Book'}`);
+      if (!target) {
+        console.log('  Nothing scheduled today.');
+        return;
+      }
+      const logged = pagesLoggedOn(book, today);
+      const remaining = Math.max(0, target.pagesToReadToday - logged);
+      console.log(`  Read ${formatRange(book.unit, target.startPage, target.endPage)} (${amountLabel(book, target.pagesToReadToday)})`);
+      if (logged > 0) console.log(`  Logged today: ${formatGoal(book, logged)} · ${remaining > 0 ? `${amountLabel(book, remaining)} to go` : 'done for today'}`);
+      if (target.chapterLabel) console.log(`  ${target.chapterLabel}`);
+      return;
+    }
+
+    case 'schedule': {
+      const book = findBook(library, values.book);
+      const scheduleFormat = values.format ?? 'csv';
+      if (!SCHEDULE_FORMATS.includes(scheduleFormat as typeof SCHEDULE_FORMATS[number])) {
+        throw new CliError(`--format must be one of ${SCHEDULE_FORMATS.join(', ')}`);
+      }
+      const plan = planner.buildPlan(book, library.availability);
+      // Calendars only carry the days still ahead, as the app's calendar export does
+      if (scheduleFormat === 'csv') process.stdout.write(scheduleToCsv(plan.items));
+      else if (scheduleFormat === 'ics') {
+        const { calendar, state } = exportCalendar(book, getUpcomingItems(plan));
+        process.stdout.write(calendar);
+        file.library = replaceBook(library, { ...book, calendarExport: state });
+        await writeDataFile(file);
+      } else console.log(JSON.stringify({ bookId: book.id, bookTitle: book.bookTitle, unit: book.unit, truncated: plan.truncated, items: plan.items }, null, 2));
+      return;
+    }
+
+    case 'books': {
+      if (values.use) {
+        const book = findBook(library, values.use);
+        file.library = { ...library, activeBookId: book.id };
+        await writeDataFile(file);
+      }
+      file.library.books.forEach(book => {
+        const marker = book.id === file.library.activeBookId ? '*' : ' ';
+        console.log(`${marker} ${book.id.slice(0, 8)}  ${book.bookTitle || 'Untitled Book'}  ${book.pagesRead}/${book.totalPages} ${UNIT_INFO[book.unit].noun}  ${book.status}`);
+      });
+      return;
+    }
+
+    default:
+      throw new CliError(`unknown command "${command}"\n\n${USAGE}`);
+  }
+};
+
+run(process.argv.slice(2)).catch(error => {
+  if (error instanceof BackupValidationError) {
+    console.error(`bookbound: the data file is not a valid BookBound backup:\n  ${error.issues.join('\n  ')}`);
+  } else if (error instanceof CliError || (error as NodeJS.ErrnoException).code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION') {
+    console.error(`bookbound: ${error.message}`);
+  } else {
+    console.error("bookbound failed:", error);
+  }
+  process.exitCode = 1;
+});
@@ -0,0 +1,124 @@
+
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarOff, Plus, X } from 'lucide-react';
+import { ReadingAvailability } from '../types';
+import { WEEKDAY_LABELS, WEIGHT_OPTIONS } from '../services/availabilityService';
+import { generateId } from '../services/libraryService';
+
+interface AvailabilityEditorProps {
+  availability: ReadingAvailability;
+  onChange: (availability: ReadingAvailability) => void;
+}
+
+// Monday-first display order over the Sunday-first weights array
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const inputClassName = "px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-indigo-500 transition-all text-[13px] font-bold outline-none [color-scheme:light] dark:[color-scheme:dark]";
+
+const AvailabilityEditor: React.FC<AvailabilityEditorProps> = ({ availability, onChange }) => {
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [label, setLabel] = useState('');
+
+  const setWeight = (weekday: number, weight: number) => {
+    const weekdayWeights = [...availability.weekdayWeights];
+    weekdayWeights[weekday] = weight;
+    onChange({ ...availability, weekdayWeights });
+  };
+
+  const handleAddBlackout = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!start) return;
+    const rangeEnd = end && end >= start ? end : start;
+    onChange({
+      ...availability,
+      blackouts: [...availability.blackouts, { id: generateId(), start, end: rangeEnd, label: label.trim() }]
+    });
+    setStart('');
+    setEnd('');
+    setLabel('');
+  };
+
+  const handleRemoveBlackout = (id: string) => {
+    onChange({ ...availability, blackouts: availability.blackouts.filter(range => range.id !== id) });
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#18181B] p-6 rounded-[2rem] border border-gray-100 dark:border-gray-800 shadow-xl shadow-indigo-500/5 space-y-6">
+      <div className="space-y-3">
+        <h3 className="text-[11px] font-black text-gray-400 dark:text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+          <CalendarOff className="w-3.5 h-3.5 text-indigo-500" /> Reading Days
+        </h3>
+        <div className="grid grid-cols-7 gap-2">
+          {WEEKDAY_ORDER.map(weekday => {
+            const weight = availability.weekdayWeights[weekday];
+            return (
+              <label key={weekday} className="flex flex-col items-center gap-1">
+                <span className="text-[10px] font-black text-gray-400 uppercase">{WEEKDAY_LABELS[weekday]}</span>
+                <select
+                  value={weight}
+                  onChange={(e) => setWeight(weekday, Number(e.target.value))}
+                  className={`w-full px-1 py-2 rounded-xl text-center text-[12px] font-black outline-none cursor-pointer border transition-all ${
+                    weight === 0
+                      ? 'bg-gray-50 dark:bg-[#09090B] text-gray-300 dark:text-gray-700 border-transparent'
+                      : 'bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-400 border-indigo-100 dark:border-indigo-900/30'
+                  }`}
+                >
+                  {WEIGHT_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            );
+          })}
+        </div>
+        <p className="text-xs font-bold text-gray-400 dark:text-gray-500">Your daily goal is scaled by each day's weight. Days marked off get no reading.</p>
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-[11px] font-bold text-gray-400 uppercase tracking-wide">Blackout Dates</p>
+        {availability.blackouts.length > 0 && (
+          <ul className="flex flex-wrap gap-2">
+            {availability.blackouts.map(range => (
+              <li key={range.id} className="flex items-center gap-2 pl-3 pr-1 py-1 rounded-xl bg-rose-50 dark:bg-rose-900/20 border border-rose-100 dark:border-rose-900/30 text-[12px] font-bold text-rose-600 dark:text-rose-400">
+                <span>
+                  {range.label ? `${range.label}: ` : ''}
+                  {format(parseISO(range.start), 'MMM dd')}{range.end !== range.start ? ` – ${format(parseISO(range.end), 'MMM dd')}` : ''}
+                </span>
+                <button
+                  onClick={() => handleRemoveBlackout(range.id)}
+                  title="Remove blackout"
+                  className="p-1 rounded-lg hover:bg-rose-100 dark:hover:bg-rose-900/40 transition-all"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={handleAddBlackout} className="flex flex-wrap items-center gap-2">
+          <input type="date" value={start} onChange={(e) => setStart(e.target.value)} aria-label="Blackout start" className={inputClassName} />
+          <input type="date" value={end} min={start} onChange={(e) => setEnd(e.target.value)} aria-label="Blackout end" className={inputClassName} />
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="E.g. Exams"
+            className={`flex-1 min-w-[8rem] ${inputClassName} placeholder:text-gray-300 dark:placeholder:text-gray-700`}
+          />
+          <button
+            type="submit"
+            disabled={!start}
+            title="Add blackout"
+            className="p-2 rounded-xl bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-400 border border-indigo-100 dark:border-indigo-900/30 transition-all hover:bg-indigo-100 dark:hover:bg-indigo-900/40 disabled:opacity-40 active:scale-95"
+          >
+            <Plus className="w-5 h-5" />
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilityEditor;
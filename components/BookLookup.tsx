@@ -0,0 +1,85 @@
+
+import React, { useState } from 'react';
+import { BookMarked, Search } from 'lucide-react';
+import { BookMetadata } from '../types';
+import { MetadataProvider, lookupBook } from '../services/metadataService';
+
+interface BookLookupProps {
+  providers?: MetadataProvider[];
+  onSelect: (metadata: BookMetadata) => void;
+}
+
+const BookLookup: React.FC<BookLookupProps> = ({ providers, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<BookMetadata[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    setLoading(true);
+    setResults(await lookupBook(query, providers));
+    setLoading(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <form onSubmit={handleSearch} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Look up by ISBN or title"
+          aria-label="ISBN or title"
+          className="flex-1 min-w-0 px-4 py-2.5 rounded-2xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-indigo-500 transition-all text-[13px] font-bold outline-none placeholder:text-gray-300 dark:placeholder:text-gray-700"
+        />
+        <button
+          type="submit"
+          disabled={!query.trim() || loading}
+          title="Find book details"
+          className="p-2.5 rounded-2xl bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-400 border border-indigo-100 dark:border-indigo-900/30 transition-all hover:bg-indigo-100 dark:hover:bg-indigo-900/40 disabled:opacity-40 active:scale-95"
+        >
+          <Search className={`w-4 h-4 ${loading ? 'animate-pulse' : ''}`} />
+        </button>
+      </form>
+
+      {results && (
+        results.length === 0 ? (
+          <p className="px-2 text-xs font-bold text-gray-400">No matches. Check the ISBN or try part of the title.</p>
+        ) : (
+          <ul className="max-h-64 overflow-y-auto space-y-1">
+            {results.map((result, index) => (
+              <li key={`${result.source}-${result.isbn ?? index}`}>
+                <button
+                  onClick={() => {
+                    onSelect(result);
+                    setResults(null);
+                    setQuery('');
+                  }}
+                  className="w-full flex items-center gap-3 p-2 rounded-2xl text-left hover:bg-indigo-50 dark:hover:bg-indigo-900/10 transition-all"
+                >
+                  {result.coverUrl ? (
+                    <img src={result.coverUrl} alt="" className="w-8 h-12 rounded-md object-cover bg-gray-100 dark:bg-gray-800 shrink-0" />
+                  ) : (
+                    <div className="w-8 h-12 rounded-md bg-gray-100 dark:bg-gray-800 flex items-center justify-center shrink-0">
+                      <BookMarked className="w-4 h-4 text-gray-300 dark:text-gray-600" />
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-[13px] font-black truncate">{result.title}</p>
+                    <p className="text-[11px] font-bold text-gray-400 truncate">
+                      {[result.author, result.pageCount ? `${result.pageCount} pages` : null, result.edition].filter(Boolean).join(' · ')}
+                    </p>
+                    <p className="text-[10px] font-black text-gray-300 dark:text-gray-600 uppercase tracking-widest">{result.source}</p>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
+
+export default BookLookup;
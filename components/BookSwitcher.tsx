@@ -0,0 +1,64 @@
+
+import React from 'react';
+import { Library, Plus } from 'lucide-react';
+import { Book, BookStatus, ReadingPlan } from '../types';
+import { BOOK_STATUSES } from '../services/libraryService';
+import { formatScheduleDate, getEstimatedFinishDate } from '../services/planner';
+
+interface BookSwitcherProps {
+  books: Book[];
+  activeBookId: string;
+  plans: Record<string, ReadingPlan>;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onStatusChange: (status: BookStatus) => void;
+}
+
+const selectClassName = "max-w-[10rem] sm:max-w-[14rem] px-3 py-2 rounded-xl bg-white dark:bg-[#18181B] border border-gray-200 dark:border-gray-800 shadow-sm text-[12px] font-bold text-gray-700 dark:text-gray-300 outline-none focus:border-indigo-500 transition-all cursor-pointer";
+
+const BookSwitcher: React.FC<BookSwitcherProps> = ({ books, activeBookId, plans, onSelect, onAdd, onStatusChange }) => {
+  const activeBook = books.find(book => book.id === activeBookId);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Library className="hidden sm:block w-4 h-4 text-violet-400" />
+      <select
+        aria-label="Active book"
+        value={activeBookId}
+        onChange={(e) => onSelect(e.target.value)}
+        className={selectClassName}
+      >
+        {books.map(book => {
+          const finishDate = plans[book.id] ? getEstimatedFinishDate(plans[book.id]) : null;
+          const finish = finishDate ? ` · ${formatScheduleDate(finishDate)}` : '';
+          return (
+            <option key={book.id} value={book.id}>
+              {book.bookTitle || 'Untitled Book'}{book.status === 'reading' ? finish : ''}
+            </option>
+          );
+        })}
+      </select>
+      {activeBook && (
+        <select
+          aria-label="Book status"
+          value={activeBook.status}
+          onChange={(e) => onStatusChange(e.target.value as BookStatus)}
+          className={`hidden sm:block ${selectClassName}`}
+        >
+          {BOOK_STATUSES.map(status => (
+            <option key={status.value} value={status.value}>{status.label}</option>
+          ))}
+        </select>
+      )}
+      <button
+        onClick={onAdd}
+        title="Add a book"
+        className="p-2 rounded-xl bg-white dark:bg-[#18181B] border border-gray-200 dark:border-gray-800 shadow-sm hover:scale-110 active:scale-95 transition-all text-indigo-500 dark:text-indigo-400"
+      >
+        <Plus className="w-5 h-5" />
+      </button>
+    </div>
+  );
+};
+
+export default BookSwitcher;
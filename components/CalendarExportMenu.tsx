@@ -0,0 +1,106 @@
+
+import React, { useState } from 'react';
+import { CalendarPlus } from 'lucide-react';
+import { Book, CalendarExportOptions, CalendarExportState, ScheduleItem } from '../types';
+import { DEFAULT_CALENDAR_OPTIONS, exportCalendar } from '../services/icsService';
+import { downloadFile, toFileSlug } from '../services/fileService';
+
+interface CalendarExportMenuProps {
+  book: Book;
+  items: ScheduleItem[];
+  // Called with what was exported, for the book to keep until the next export
+  onExported: (state: CalendarExportState) => void;
+}
+
+const inputClassName = "px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-indigo-500 transition-all text-[13px] font-bold outline-none tabular-nums [color-scheme:light] dark:[color-scheme:dark]";
+
+const CalendarExportMenu: React.FC<CalendarExportMenuProps> = ({ book, items, onExported }) => {
+  const [open, setOpen] = useState(false);
+  const [timed, setTimed] = useState(false);
+  const [startTime, setStartTime] = useState('20:00');
+  const [options, setOptions] = useState<CalendarExportOptions>(DEFAULT_CALENDAR_OPTIONS);
+
+  const handleDownload = () => {
+    const { calendar, state } = exportCalendar(book, items, { ...options, startTime: timed ? startTime : undefined });
+    downloadFile(`${toFileSlug(book.bookTitle, 'book')}-roadmap.ics`, calendar, 'text/calendar');
+    onExported(state);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title="Add the roadmap to your calendar"
+        className="flex items-center gap-2 px-4 py-2 rounded-2xl bg-white dark:bg-[#09090B] text-[11px] font-black text-gray-500 dark:text-gray-400 border border-gray-200 dark:border-gray-800 uppercase tracking-widest hover:border-indigo-300 dark:hover:border-indigo-800 transition-all active:scale-95"
+      >
+        <CalendarPlus className="w-3.5 h-3.5" /> ICS
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-20 w-72 p-5 rounded-2xl bg-white dark:bg-[#18181B] border border-gray-100 dark:border-gray-800 shadow-2xl shadow-indigo-500/10 space-y-4">
+          <div className="flex p-1 rounded-xl bg-gray-50 dark:bg-[#09090B] text-[11px] font-black uppercase tracking-widest">
+            {[{ label: 'All Day', value: false }, { label: 'Time Slot', value: true }].map(option => (
+              <button
+                key={option.label}
+                onClick={() => setTimed(option.value)}
+                className={`flex-1 px-3 py-2 rounded-lg transition-all ${timed === option.value ? 'bg-white dark:bg-[#18181B] text-indigo-600 dark:text-indigo-400 shadow-sm' : 'text-gray-400'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {timed && (
+            <div className="flex items-center gap-2">
+              <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} aria-label="Start time" className={`flex-1 ${inputClassName}`} />
+              <input
+                type="number"
+                min={5}
+                value={options.durationMinutes || ''}
+                onChange={(e) => setOptions({ ...options, durationMinutes: parseInt(e.target.value, 10) || 0 })}
+                aria-label="Duration in minutes"
+                className={`w-20 ${inputClassName}`}
+              />
+              <span className="text-[11px] font-bold text-gray-400 uppercase">min</span>
+            </div>
+          )}
+
+          <label className="flex items-center gap-3 text-[13px] font-bold text-gray-600 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.reminder}
+              onChange={(e) => setOptions({ ...options, reminder: e.target.checked })}
+              className="h-4 w-4 accent-indigo-500"
+            />
+            Reminder
+            {options.reminder && timed && (
+              <span className="flex items-center gap-2 ml-auto">
+                <input
+                  type="number"
+                  min={0}
+                  value={options.reminderMinutes}
+                  onChange={(e) => setOptions({ ...options, reminderMinutes: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  aria-label="Minutes before"
+                  className={`w-16 ${inputClassName}`}
+                />
+                <span className="text-[11px] text-gray-400 uppercase">min before</span>
+              </span>
+            )}
+            {options.reminder && !timed && <span className="ml-auto text-[11px] text-gray-400 uppercase">at 9:00</span>}
+          </label>
+
+          <button
+            onClick={handleDownload}
+            disabled={items.length === 0}
+            className="w-full px-4 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white font-black text-sm transition-all shadow-lg shadow-indigo-500/20 active:scale-95"
+          >
+            Download {items.length} Event{items.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarExportMenu;
@@ -0,0 +1,168 @@
+
+import React, { useState } from 'react';
+import { endOfYear, format, parseISO } from 'date-fns';
+import { Medal, Plus, X } from 'lucide-react';
+import { Book, ChallengeMetric, ChallengeStatus, ReadingChallenge } from '../types';
+import { CHALLENGE_PRESETS, createChallenge, getChallengeProgress } from '../services/challengeService';
+import { generateId } from '../services/libraryService';
+import { toDateKey } from '../services/sessionService';
+
+interface ChallengesCardProps {
+  challenges: ReadingChallenge[];
+  books: Book[];
+  today: Date;
+  nextBook: Book | null;
+  challengePace: number | null;
+  onChange: (challenges: ReadingChallenge[]) => void;
+  onApplyPace: (bookId: string, pagesPerDay: number) => void;
+}
+
+const STATUS_STYLES: Record<ChallengeStatus, { label: string; className: string }> = {
+  upcoming: { label: 'Upcoming', className: 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400' },
+  ahead: { label: 'On Track', className: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400' },
+  behind: { label: 'Behind', className: 'bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400' },
+  completed: { label: 'Complete', className: 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400' },
+  missed: { label: 'Ended', className: 'bg-rose-100 dark:bg-rose-900/30 text-rose-600 dark:text-rose-400' },
+};
+
+const inputClassName = "px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-indigo-500 transition-all text-[13px] font-bold outline-none [color-scheme:light] dark:[color-scheme:dark]";
+
+// Book challenges move slowly, so their pace reads better per week
+const formatRequiredPace = (metric: ChallengeMetric, perDay: number) =>
+  metric === 'books' ? `${(perDay * 7).toFixed(1)} books / week` : `${Math.ceil(perDay).toLocaleString()} pages / day`;
+
+const ChallengesCard: React.FC<ChallengesCardProps> = ({ challenges, books, today, nextBook, challengePace, onChange, onApplyPace }) => {
+  const [adding, setAdding] = useState(false);
+  const [title, setTitle] = useState('');
+  const [metric, setMetric] = useState<ChallengeMetric>('books');
+  const [target, setTarget] = useState('');
+  const [startDate, setStartDate] = useState(() => toDateKey(today));
+  const [endDate, setEndDate] = useState(() => toDateKey(endOfYear(today)));
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseInt(target, 10);
+    if (!amount || amount <= 0 || !startDate || !endDate || endDate < startDate) return;
+    onChange([...challenges, {
+      id: generateId(),
+      title: title.trim() || `${amount.toLocaleString()} ${metric}`,
+      metric,
+      target: amount,
+      startDate,
+      endDate
+    }]);
+    setTitle('');
+    setTarget('');
+    setAdding(false);
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#18181B] p-6 rounded-[2rem] border border-gray-100 dark:border-gray-800 shadow-xl shadow-indigo-500/5 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-[11px] font-black text-gray-400 dark:text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+          <Medal className="w-3.5 h-3.5 text-indigo-500" /> Reading Challenges
+        </h3>
+        <div className="flex flex-wrap gap-2">
+          {CHALLENGE_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => onChange([...challenges, createChallenge(preset, today)])}
+              className="px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] text-[11px] font-black text-gray-500 dark:text-gray-400 uppercase tracking-widest hover:text-indigo-600 dark:hover:text-indigo-400 transition-all"
+            >
+              {preset.label}
+            </button>
+          ))}
+          <button
+            onClick={() => setAdding(!adding)}
+            title="Custom challenge"
+            className="p-2 rounded-xl bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-400 border border-indigo-100 dark:border-indigo-900/30 transition-all hover:bg-indigo-100 dark:hover:bg-indigo-900/40 active:scale-95"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {adding && (
+        <form onSubmit={handleAdd} className="grid grid-cols-2 sm:grid-cols-6 gap-2">
+          <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Challenge name" className={`col-span-2 ${inputClassName}`} />
+          <input type="number" min={1} value={target} onChange={(e) => setTarget(e.target.value)} placeholder="Target" aria-label="Target" className={`${inputClassName} tabular-nums`} />
+          <select value={metric} onChange={(e) => setMetric(e.target.value as ChallengeMetric)} aria-label="Count" className={inputClassName}>
+            <option value="books">Books</option>
+            <option value="pages">Pages</option>
+          </select>
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} aria-label="Start date" className={inputClassName} />
+          <input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} aria-label="End date" className={inputClassName} />
+          <button
+            type="submit"
+            disabled={!target}
+            className="col-span-2 sm:col-span-6 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white font-black text-xs uppercase tracking-widest transition-all active:scale-95"
+          >
+            Add Challenge
+          </button>
+        </form>
+      )}
+
+      {challenges.length === 0 ? (
+        <p className="text-xs font-bold text-gray-400 dark:text-gray-500">Set a goal like 24 books this year. Finished books and logged pages count towards it.</p>
+      ) : (
+        <ul className="space-y-4">
+          {challenges.map(challenge => {
+            const progress = getChallengeProgress(challenge, books, today);
+            const percent = Math.min(100, (progress.achieved / challenge.target) * 100);
+            const expectedPercent = Math.min(100, (progress.expected / challenge.target) * 100);
+            const running = progress.status === 'ahead' || progress.status === 'behind';
+            return (
+              <li key={challenge.id} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-[15px] font-black tracking-tight truncate">{challenge.title}</span>
+                  <span className={`px-2 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest whitespace-nowrap ${STATUS_STYLES[progress.status].className}`}>
+                    {STATUS_STYLES[progress.status].label}
+                  </span>
+                  <button
+                    onClick={() => onChange(challenges.filter(c => c.id !== challenge.id))}
+                    title="Remove challenge"
+                    className="ml-auto p-1 rounded-lg text-gray-300 hover:text-rose-500 transition-all"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="relative h-2 w-full bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 rounded-full transition-all duration-700" style={{ width: `${percent}%` }} />
+                  {running && <div className="absolute top-0 h-full w-0.5 bg-gray-400 dark:bg-gray-500" style={{ left: `${expectedPercent}%` }} title="Where a steady pace would be today" />}
+                </div>
+                <div className="flex flex-wrap justify-between gap-x-4 gap-y-1 text-[11px] font-bold text-gray-400 uppercase tracking-wide">
+                  <span className="tabular-nums">
+                    {progress.achieved.toLocaleString()} / {challenge.target.toLocaleString()} {challenge.metric}
+                    {running && ` · on pace for ${Math.floor(progress.projected).toLocaleString()}`}
+                  </span>
+                  <span className="tabular-nums">
+                    {running
+                      ? `Need ${formatRequiredPace(challenge.metric, progress.requiredPerDay)} · ${progress.daysLeft} days left`
+                      : `${format(parseISO(challenge.startDate), 'MMM d')} – ${format(parseISO(challenge.endDate), 'MMM d, yyyy')}`}
+                  </span>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {nextBook && challengePace !== null && nextBook.unit === 'pages' && (
+        <div className="flex flex-wrap items-center gap-3 p-3 rounded-2xl bg-violet-50 dark:bg-violet-900/10 border border-violet-100 dark:border-violet-900/20">
+          <p className="flex-1 text-[13px] font-bold text-violet-700 dark:text-violet-300">
+            Next up, {nextBook.bookTitle || 'Untitled Book'}: {challengePace} pages a day keeps your challenges on track.
+          </p>
+          <button
+            onClick={() => onApplyPace(nextBook.id, challengePace)}
+            disabled={nextBook.pagesPerDay === challengePace}
+            className="px-4 py-2 rounded-xl bg-violet-600 hover:bg-violet-700 disabled:opacity-40 text-white font-black text-xs uppercase tracking-widest transition-all active:scale-95"
+          >
+            Use Pace
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChallengesCard;
@@ -0,0 +1,169 @@
+
+import React, { useState } from 'react';
+import { ClipboardList, ListOrdered, Plus, X } from 'lucide-react';
+import { Book, Chapter } from '../types';
+import { parseTableOfContents } from '../services/chapterService';
+import { generateId } from '../services/libraryService';
+import { UNIT_INFO } from '../services/unitService';
+
+interface ChapterEditorProps {
+  book: Book;
+  onChange: (changes: Partial<Pick<Book, 'chapters' | 'snapToChapters' | 'chapterTolerance'>>) => void;
+}
+
+const inputClassName = "px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-indigo-500 transition-all text-[13px] font-bold outline-none placeholder:text-gray-300 dark:placeholder:text-gray-700";
+
+const ChapterEditor: React.FC<ChapterEditorProps> = ({ book, onChange }) => {
+  const [pasting, setPasting] = useState(false);
+  const [pasted, setPasted] = useState('');
+  const [title, setTitle] = useState('');
+  const [startPage, setStartPage] = useState('');
+
+  // Unlike sortChapters, keep half-edited rows (page 0 or duplicates) visible
+  const chapters = [...book.chapters].sort((a, b) => a.startPage - b.startPage);
+
+  const updateChapter = (id: string, changes: Partial<Chapter>) => {
+    onChange({ chapters: book.chapters.map(chapter => (chapter.id === id ? { ...chapter, ...changes } : chapter)) });
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const page = parseInt(startPage, 10);
+    if (!page || page <= 0) return;
+    onChange({ chapters: [...book.chapters, { id: generateId(), title: title.trim() || `Chapter ${chapters.length + 1}`, startPage: page }] });
+    setTitle('');
+    setStartPage('');
+  };
+
+  const handlePaste = () => {
+    const parsed = parseTableOfContents(pasted);
+    if (parsed.length === 0) return;
+    onChange({ chapters: parsed });
+    setPasted('');
+    setPasting(false);
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#18181B] p-6 rounded-[2rem] border border-gray-100 dark:border-gray-800 shadow-xl shadow-indigo-500/5 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-[11px] font-black text-gray-400 dark:text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+          <ListOrdered className="w-3.5 h-3.5 text-indigo-500" /> Table of Contents
+        </h3>
+        <button
+          onClick={() => setPasting(!pasting)}
+          className="flex items-center gap-2 px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] text-[11px] font-black text-gray-500 dark:text-gray-400 uppercase tracking-widest hover:text-indigo-600 dark:hover:text-indigo-400 transition-all"
+        >
+          <ClipboardList className="w-3.5 h-3.5" /> Paste List
+        </button>
+      </div>
+
+      {pasting && (
+        <div className="space-y-2">
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            rows={5}
+            placeholder={"One chapter per line, start page last:\nChapter 1: Loomings ..... 1\nChapter 2: The Carpet-Bag ..... 9"}
+            className={`w-full ${inputClassName} font-mono text-[12px]`}
+          />
+          <button
+            onClick={handlePaste}
+            disabled={parseTableOfContents(pasted).length === 0}
+            className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white font-black text-xs uppercase tracking-widest transition-all active:scale-95"
+          >
+            Replace with {parseTableOfContents(pasted).length} Chapters
+          </button>
+        </div>
+      )}
+
+      {chapters.length > 0 && (
+        <ol className="space-y-2 max-h-64 overflow-y-auto pr-1">
+          {chapters.map((chapter, index) => (
+            <li key={chapter.id} className="flex items-center gap-2">
+              <span className="w-10 text-[11px] font-black text-gray-400 tabular-nums">Ch. {index + 1}</span>
+              <input
+                type="text"
+                value={chapter.title}
+                onChange={(e) => updateChapter(chapter.id, { title: e.target.value })}
+                aria-label="Chapter title"
+                className={`flex-1 min-w-0 ${inputClassName}`}
+              />
+              <input
+                type="number"
+                min={1}
+                value={chapter.startPage || ''}
+                onChange={(e) => updateChapter(chapter.id, { startPage: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                aria-label="Start page"
+                className={`w-20 ${inputClassName} tabular-nums`}
+              />
+              <button
+                onClick={() => onChange({ chapters: book.chapters.filter(c => c.id !== chapter.id) })}
+                title="Remove chapter"
+                className="p-2 rounded-lg text-gray-300 hover:text-rose-500 transition-all"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <form onSubmit={handleAdd} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder={`Chapter ${chapters.length + 1}`}
+          className={`flex-1 min-w-0 ${inputClassName}`}
+        />
+        <input
+          type="number"
+          min={1}
+          value={startPage}
+          onChange={(e) => setStartPage(e.target.value)}
+          placeholder={UNIT_INFO[book.unit].positionLabel}
+          aria-label="Start page"
+          className={`w-20 ${inputClassName} tabular-nums`}
+        />
+        <button
+          type="submit"
+          disabled={!startPage}
+          title="Add chapter"
+          className="p-2 rounded-xl bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-400 border border-indigo-100 dark:border-indigo-900/30 transition-all hover:bg-indigo-100 dark:hover:bg-indigo-900/40 disabled:opacity-40 active:scale-95"
+        >
+          <Plus className="w-5 h-5" />
+        </button>
+      </form>
+
+      {chapters.length > 1 && (
+        <div className="flex flex-wrap items-center gap-3 pt-2">
+          <label className="flex items-center gap-2 text-[13px] font-bold text-gray-600 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={book.snapToChapters}
+              onChange={(e) => onChange({ snapToChapters: e.target.checked })}
+              className="h-4 w-4 accent-indigo-500"
+            />
+            End days at chapter breaks
+          </label>
+          {book.snapToChapters && (
+            <label className="flex items-center gap-2 text-[11px] font-bold text-gray-400 uppercase tracking-wide">
+              within ±
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={book.chapterTolerance}
+                onChange={(e) => onChange({ chapterTolerance: Math.min(100, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+                className={`w-16 ${inputClassName} tabular-nums text-gray-900 dark:text-white`}
+              />
+              % of the day
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChapterEditor;
@@ -0,0 +1,103 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { RefreshCw, Sparkles } from 'lucide-react';
+import { CoachAdvice, CoachContext, CoachRiskLevel } from '../types';
+import { ReadingCoach } from '../services/geminiService';
+import { UNIT_INFO } from '../services/unitService';
+
+interface CoachPanelProps {
+  coach: ReadingCoach;
+  context: CoachContext;
+  onApplyPace: (pagesPerDay: number) => void;
+}
+
+const RISK_STYLES: Record<CoachRiskLevel, { label: string; className: string }> = {
+  low: { label: 'Low Risk', className: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400' },
+  medium: { label: 'Medium Risk', className: 'bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400' },
+  high: { label: 'High Risk', className: 'bg-rose-100 dark:bg-rose-900/30 text-rose-600 dark:text-rose-400' },
+};
+
+const CoachPanel: React.FC<CoachPanelProps> = ({ coach, context, onApplyPace }) => {
+  const [advice, setAdvice] = useState<CoachAdvice | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [refreshCount, setRefreshCount] = useState(0);
+  const skipCache = useRef(false);
+  const contextKey = JSON.stringify(context);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Wait for typing in Plan Adjustments to settle before asking
+    const timer = setTimeout(() => {
+      setLoading(true);
+      const refresh = skipCache.current;
+      skipCache.current = false;
+      coach.getAdvice(context, refresh).then(result => {
+        if (!cancelled) {
+          setAdvice(result);
+          setLoading(false);
+        }
+      });
+    }, 600);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // contextKey stands in for the context object, which is rebuilt on every render
+  }, [coach, contextKey, refreshCount]);
+
+  return (
+    <div className="bg-gradient-to-br from-indigo-600 to-purple-700 p-6 rounded-[2rem] shadow-xl shadow-indigo-500/20 text-white relative overflow-hidden">
+      <div className="absolute top-[-20%] right-[-10%] w-48 h-48 bg-white/10 rounded-full blur-3xl" />
+      <div className="relative flex flex-col lg:flex-row lg:items-center gap-6">
+        <div className="flex-1 space-y-3">
+          <div className="flex items-center gap-3">
+            <h3 className="text-[11px] font-black uppercase tracking-[0.2em] flex items-center gap-2 opacity-90">
+              <Sparkles className="w-3.5 h-3.5" /> Reading Coach
+            </h3>
+            {advice && (
+              <span className={`px-2 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest ${RISK_STYLES[advice.riskLevel].className}`}>
+                {RISK_STYLES[advice.riskLevel].label}
+              </span>
+            )}
+            {advice?.source === 'offline' && (
+              <span className="text-[10px] font-black uppercase tracking-widest opacity-60">{coach.hasModel ? 'Offline' : 'No API key'}</span>
+            )}
+          </div>
+          <p className={`text-[15px] font-bold leading-relaxed transition-opacity ${loading ? 'opacity-50' : ''}`}>
+            {advice ? advice.message : 'Looking over your plan...'}
+          </p>
+        </div>
+
+        {advice && (
+          <div className="flex items-center gap-3">
+            <div className="text-center px-4">
+              <p className="text-[10px] font-black uppercase tracking-widest opacity-70">Suggested</p>
+              <p className="text-3xl font-black tabular-nums">{advice.suggestedPagesPerDay}</p>
+              <p className="text-[10px] font-bold opacity-70">{UNIT_INFO[context.unit].noun} / day</p>
+            </div>
+            <button
+              onClick={() => onApplyPace(advice.suggestedPagesPerDay)}
+              disabled={advice.suggestedPagesPerDay === context.pagesPerDay}
+              className="px-5 py-3 rounded-2xl bg-white text-indigo-600 font-black text-sm transition-all shadow-lg active:scale-95 disabled:opacity-40"
+            >
+              Apply
+            </button>
+            <button
+              onClick={() => {
+                skipCache.current = true;
+                setRefreshCount(count => count + 1);
+              }}
+              disabled={loading}
+              title="Ask again"
+              className="p-3 rounded-2xl bg-white/20 hover:bg-white/30 transition-all active:scale-95 disabled:opacity-40"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CoachPanel;
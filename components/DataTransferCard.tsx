@@ -0,0 +1,146 @@
+
+import React, { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, HardDrive, Trash2, Upload } from 'lucide-react';
+import { ImportMode, Library, QuarantinedRecord } from '../types';
+import { BackupValidationError, applyBackup, createBackup, parseBackup } from '../services/backupService';
+import { downloadFile } from '../services/fileService';
+
+interface DataTransferCardProps {
+  library: Library;
+  theme: 'light' | 'dark';
+  quarantined: QuarantinedRecord[];
+  onRestore: (library: Library, theme?: 'light' | 'dark') => void;
+  onDiscardQuarantined: (key: string) => void;
+}
+
+const IMPORT_MODES: { value: ImportMode; label: string; description: string }[] = [
+  { value: 'merge', label: 'Merge', description: 'Add imported books, replacing any with the same id' },
+  { value: 'replace', label: 'Replace', description: 'Swap everything here for the backup' },
+];
+
+const DataTransferCard: React.FC<DataTransferCardProps> = ({ library, theme, quarantined, onRestore, onDiscardQuarantined }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [message, setMessage] = useState<{ tone: 'success' | 'error'; text: string; issues?: string[] } | null>(null);
+
+  const handleExport = () => {
+    const backup = createBackup(library, theme);
+    downloadFile(`bookbound-backup-${format(new Date(), 'yyyy-MM-dd')}.json`, JSON.stringify(backup, null, 2), 'application/json');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const backup = parseBackup(await file.text());
+      if (mode === 'replace' && !window.confirm('Replace all books and settings with this backup?')) return;
+
+      onRestore(applyBackup(library, backup, mode), mode === 'replace' ? backup.theme : undefined);
+      const count = backup.library.books.length;
+      setMessage({ tone: 'success', text: `Imported ${count} book${count === 1 ? '' : 's'} from ${file.name}` });
+    } catch (error) {
+      if (error instanceof BackupValidationError) {
+        setMessage({ tone: 'error', text: `${file.name} could not be imported`, issues: error.issues });
+      } else {
+        console.error("Failed to import backup", error);
+        setMessage({ tone: 'error', text: `${file.name} could not be read` });
+      }
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#18181B] p-6 rounded-[2rem] border border-gray-100 dark:border-gray-800 shadow-xl shadow-indigo-500/5 space-y-4">
+      <h3 className="text-[11px] font-black text-gray-400 dark:text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+        <HardDrive className="w-3.5 h-3.5 text-indigo-500" /> Backup & Restore
+      </h3>
+
+      <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+        <button
+          onClick={handleExport}
+          className="flex items-center justify-center gap-2 px-5 py-3 rounded-2xl bg-indigo-600 hover:bg-indigo-700 text-white font-black text-sm transition-all shadow-lg shadow-indigo-500/20 active:scale-95"
+        >
+          <Download className="w-4 h-4" /> Export Backup
+        </button>
+
+        <div className="flex flex-wrap items-center gap-2 lg:ml-auto">
+          {IMPORT_MODES.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setMode(option.value)}
+              title={option.description}
+              className={`px-4 py-2 rounded-xl text-xs font-black transition-all active:scale-95 border ${
+                option.value === mode
+                  ? 'bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-400 border-indigo-200 dark:border-indigo-900/50'
+                  : 'bg-gray-50 dark:bg-[#09090B] text-gray-500 dark:text-gray-400 border-transparent hover:border-indigo-200 dark:hover:border-indigo-900/50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="flex items-center gap-2 px-5 py-3 rounded-2xl bg-gray-50 dark:bg-[#09090B] border border-gray-200 dark:border-gray-800 font-black text-sm text-gray-700 dark:text-gray-300 transition-all hover:border-indigo-300 dark:hover:border-indigo-800 active:scale-95"
+          >
+            <Upload className="w-4 h-4" /> Import
+          </button>
+          <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+        </div>
+      </div>
+
+      <p className="text-xs font-bold text-gray-400 dark:text-gray-500">
+        {IMPORT_MODES.find(option => option.value === mode)?.description}
+      </p>
+
+      {quarantined.length > 0 && (
+        <div className="p-4 rounded-2xl bg-amber-50 dark:bg-amber-900/20 text-[13px] font-bold text-amber-700 dark:text-amber-300 space-y-3">
+          <p>Some saved data could not be loaded, so it was set aside instead of deleted. Download it to recover what you can, or discard it.</p>
+          <ul className="space-y-2">
+            {quarantined.map(record => (
+              <li key={record.key} className="flex flex-wrap items-center gap-2">
+                <span className="flex-1 min-w-0 text-xs">
+                  <span className="font-black">{record.quarantinedAt ? format(new Date(record.quarantinedAt), 'MMM d, yyyy HH:mm') : 'Unknown date'}</span>
+                  {record.reasons[0] && <span className="block truncate opacity-80">{record.reasons[0]}</span>}
+                </span>
+                <button
+                  onClick={() => downloadFile(`bookbound-quarantine-${format(new Date(record.quarantinedAt || Date.now()), 'yyyy-MM-dd-HHmm')}.json`, record.raw, 'application/json')}
+                  title="Download the data that could not be loaded"
+                  className="p-2 rounded-xl bg-white/60 dark:bg-black/20 hover:bg-white dark:hover:bg-black/40 transition-all"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => window.confirm('Discard this data for good?') && onDiscardQuarantined(record.key)}
+                  title="Discard"
+                  className="p-2 rounded-xl bg-white/60 dark:bg-black/20 hover:text-rose-500 transition-all"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {message && (
+        <div className={`p-4 rounded-2xl text-[13px] font-bold ${
+          message.tone === 'success'
+            ? 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 dark:text-emerald-400'
+            : 'bg-rose-50 dark:bg-rose-900/20 text-rose-600 dark:text-rose-400'
+        }`}>
+          <p>{message.text}</p>
+          {message.issues && (
+            <ul className="mt-2 space-y-1 text-xs list-disc list-inside opacity-90">
+              {message.issues.slice(0, 5).map(issue => <li key={issue}>{issue}</li>)}
+              {message.issues.length > 5 && <li>and {message.issues.length - 5} more</li>}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataTransferCard;
@@ -0,0 +1,35 @@
+
+import React, { useState } from 'react';
+import { formatDuration, parseDuration } from '../services/unitService';
+
+interface DurationInputProps {
+  minutes: number;
+  onChange: (minutes: number) => void;
+  className?: string;
+  'aria-label'?: string;
+}
+
+// h:mm text field; keeps the raw text while focused so "1:" can be typed on the way to "1:30"
+const DurationInput: React.FC<DurationInputProps> = ({ minutes, onChange, className, ...rest }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <input
+      type="text"
+      inputMode="numeric"
+      placeholder="0:00"
+      value={draft ?? (minutes ? formatDuration(minutes) : '')}
+      onFocus={() => setDraft(minutes ? formatDuration(minutes) : '')}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const parsed = parseDuration(e.target.value);
+        if (parsed !== null) onChange(parsed);
+      }}
+      onBlur={() => setDraft(null)}
+      className={className}
+      {...rest}
+    />
+  );
+};
+
+export default DurationInput;
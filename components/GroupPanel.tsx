@@ -0,0 +1,234 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Copy, LogOut, RefreshCw, Users } from 'lucide-react';
+import { Book, GroupMembership, GroupPlan, LeaderboardStatus } from '../types';
+import { DEFAULT_SYNC_SERVER_URL, GroupSyncError, canJoinGroup, createGroupClient, getLeaderboard, toReadingData } from '../services/groupService';
+import { toDateKey } from '../services/sessionService';
+
+interface GroupPanelProps {
+  book: Book;
+  today: Date;
+  onJoin: (plan: GroupPlan, membership: GroupMembership) => void;
+  onLeave: () => void;
+}
+
+const STATUS_STYLES: Record<LeaderboardStatus, { label: string; className: string }> = {
+  finished: { label: 'Finished', className: 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400' },
+  ahead: { label: 'Done Today', className: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400' },
+  'on-track': { label: 'On Track', className: 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400' },
+  behind: { label: 'Behind', className: 'bg-rose-100 dark:bg-rose-900/30 text-rose-600 dark:text-rose-400' },
+};
+
+const inputClassName = "px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-indigo-500 transition-all text-[13px] font-bold outline-none";
+
+// Other members' progress is fetched again this often while the panel is open
+const REFRESH_INTERVAL_MS = 60_000;
+
+const describeError = (error: unknown) =>
+  error instanceof GroupSyncError ? error.message : 'Something went wrong talking to the sync server';
+
+const GroupPanel: React.FC<GroupPanelProps> = ({ book, today, onJoin, onLeave }) => {
+  const membership = book.group;
+  const [serverUrl, setServerUrl] = useState(membership?.serverUrl ?? DEFAULT_SYNC_SERVER_URL);
+  const [name, setName] = useState('');
+  const [code, setCode] = useState('');
+  const [plan, setPlan] = useState<GroupPlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const client = useMemo(() => createGroupClient(membership?.serverUrl ?? serverUrl), [membership?.serverUrl, serverUrl]);
+
+  const refresh = async () => {
+    if (!membership) return;
+    try {
+      setPlan(await client.getPlan(membership.code));
+      setError(null);
+    } catch (e) {
+      setError(describeError(e));
+    }
+  };
+
+  // Report progress shortly after it changes; the response doubles as a refresh of everyone else's
+  useEffect(() => {
+    if (!membership) return;
+    const timer = window.setTimeout(() => {
+      client.reportProgress(membership, book.pagesRead)
+        .then(updated => {
+          setPlan(updated);
+          setError(null);
+        })
+        .catch(e => setError(describeError(e)));
+    }, 800);
+    return () => window.clearTimeout(timer);
+  }, [client, membership, book.pagesRead]);
+
+  useEffect(() => {
+    if (!membership) return;
+    const interval = window.setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [client, membership]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+    } catch (e) {
+      setError(describeError(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    const result = await client.createPlan(book.bookTitle || 'Book club', toReadingData(book), name, toDateKey(today));
+    setPlan(result.plan);
+    onJoin(result.plan, result.membership);
+  });
+
+  const handleJoin = () => run(async () => {
+    const result = await client.joinPlan(code, name);
+    setPlan(result.plan);
+    onJoin(result.plan, result.membership);
+  });
+
+  // Leaving still works locally when the server has already forgotten the plan
+  const handleLeave = () => {
+    if (!membership || !window.confirm('Leave this group plan? Your book and its progress stay here.')) return;
+    client.leavePlan(membership).catch(e => console.error("Failed to leave group plan", e));
+    setPlan(null);
+    onLeave();
+  };
+
+  const leaderboard = plan ? getLeaderboard(plan, today) : [];
+  const isOwner = !!plan && plan.ownerId === membership?.memberId;
+  const reading = toReadingData(book);
+  const readingChanged = !!plan && (['bookTitle', 'totalPages', 'targetFinishDate', 'pagesPerDay', 'startsFromToday'] as const)
+    .some(field => plan.reading[field] !== reading[field]);
+
+  return (
+    <div className="bg-white dark:bg-[#18181B] p-6 rounded-[2rem] border border-gray-100 dark:border-gray-800 shadow-xl shadow-indigo-500/5 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-[11px] font-black text-gray-400 dark:text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+          <Users className="w-3.5 h-3.5 text-indigo-500" /> Book Club
+        </h3>
+        {membership && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => navigator.clipboard?.writeText(membership.code)}
+              title="Copy the code to invite others"
+              className="flex items-center gap-2 px-3 py-2 rounded-xl bg-indigo-50 dark:bg-indigo-900/20 text-[11px] font-black text-indigo-600 dark:text-indigo-400 uppercase tracking-[0.2em] tabular-nums"
+            >
+              {membership.code} <Copy className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={refresh} title="Refresh" className="p-2 rounded-xl bg-gray-50 dark:bg-[#09090B] text-gray-400 hover:text-indigo-500 transition-all">
+              <RefreshCw className="w-4 h-4" />
+            </button>
+            <button onClick={handleLeave} title="Leave group" className="p-2 rounded-xl bg-gray-50 dark:bg-[#09090B] text-gray-400 hover:text-rose-500 transition-all">
+              <LogOut className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!membership ? (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Your name" aria-label="Your name" className={inputClassName} />
+            <input type="url" value={serverUrl} onChange={(e) => setServerUrl(e.target.value)} placeholder={DEFAULT_SYNC_SERVER_URL} aria-label="Sync server" className={inputClassName} />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={handleCreate}
+              disabled={busy || !name.trim() || book.totalPages <= 0 || !canJoinGroup(book)}
+              className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white font-black text-xs uppercase tracking-widest transition-all active:scale-95"
+            >
+              Start Group for This Book
+            </button>
+            <span className="text-[11px] font-black text-gray-300 dark:text-gray-600 uppercase">or</span>
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="Code"
+              aria-label="Group code"
+              maxLength={6}
+              className={`w-28 uppercase tracking-[0.2em] ${inputClassName}`}
+            />
+            <button
+              onClick={handleJoin}
+              disabled={busy || !name.trim() || code.trim().length < 6 || !canJoinGroup(book)}
+              className="px-4 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] border border-gray-200 dark:border-gray-800 font-black text-xs uppercase tracking-widest text-gray-700 dark:text-gray-300 hover:border-indigo-300 dark:hover:border-indigo-800 disabled:opacity-40 transition-all active:scale-95"
+            >
+              Join
+            </button>
+          </div>
+          <p className="text-xs font-bold text-gray-400 dark:text-gray-500">
+            {canJoinGroup(book)
+              ? "Read on one schedule with friends. Joining replaces this book's title, length, deadline and pace with the group's."
+              : 'Group plans are shared in pages. Track this book in pages to start or join one.'}
+          </p>
+        </div>
+      ) : !plan ? (
+        <p className="text-xs font-bold text-gray-400 dark:text-gray-500">Loading the group…</p>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-[13px] font-bold text-gray-500 dark:text-gray-400">
+            <span className="font-black text-gray-900 dark:text-white">{plan.name}</span> · {plan.reading.totalPages} pages by {plan.reading.targetFinishDate}
+          </p>
+          <ol className="space-y-3">
+            {leaderboard.map(entry => {
+              const percent = Math.min(100, (entry.member.pagesRead / plan.reading.totalPages) * 100);
+              const expectedPercent = Math.min(100, (entry.expected / plan.reading.totalPages) * 100);
+              const isMe = entry.member.id === membership.memberId;
+              return (
+                <li key={entry.member.id} className="space-y-1.5">
+                  <div className="flex items-center gap-3">
+                    <span className="w-5 text-[11px] font-black text-gray-400 tabular-nums">{entry.rank}</span>
+                    <span className={`text-[14px] font-black truncate ${isMe ? 'text-indigo-600 dark:text-indigo-400' : ''}`}>
+                      {entry.member.name}{isMe && ' (you)'}
+                    </span>
+                    <span className={`px-2 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest whitespace-nowrap ${STATUS_STYLES[entry.status].className}`}>
+                      {entry.status === 'behind' ? `Behind ${entry.behindBy} p.` : STATUS_STYLES[entry.status].label}
+                    </span>
+                    <span className="ml-auto text-[12px] font-black tabular-nums text-gray-500 dark:text-gray-400">
+                      {entry.member.pagesRead} / {plan.reading.totalPages}
+                    </span>
+                  </div>
+                  <div className="relative h-2 ml-8 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full transition-all duration-700 ${entry.status === 'behind' ? 'bg-rose-400' : 'bg-gradient-to-r from-indigo-500 to-purple-500'}`}
+                      style={{ width: `${percent}%` }}
+                    />
+                    <div className="absolute top-0 h-full w-0.5 bg-gray-400 dark:bg-gray-500" style={{ left: `${expectedPercent}%` }} title="Where the group schedule is by tonight" />
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+          {isOwner && readingChanged && (
+            <button
+              onClick={() => run(async () => setPlan(await client.updateReading(membership, reading)))}
+              disabled={busy}
+              className="px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] text-[11px] font-black text-gray-500 dark:text-gray-400 uppercase tracking-widest hover:text-indigo-600 dark:hover:text-indigo-400 disabled:opacity-40 transition-all"
+            >
+              Share My Plan Changes With the Group
+            </button>
+          )}
+          {!isOwner && readingChanged && (
+            <button
+              onClick={() => onJoin(plan, membership)}
+              className="px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] text-[11px] font-black text-gray-500 dark:text-gray-400 uppercase tracking-widest hover:text-indigo-600 dark:hover:text-indigo-400 transition-all"
+            >
+              Use the Group's Latest Plan
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <p className="p-3 rounded-2xl bg-rose-50 dark:bg-rose-900/20 text-[13px] font-bold text-rose-600 dark:text-rose-400">{error}</p>}
+    </div>
+  );
+};
+
+export default GroupPanel;
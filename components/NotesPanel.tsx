@@ -0,0 +1,199 @@
+
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Download, NotebookPen, Search, X } from 'lucide-react';
+import { Book, NoteKind, ReadingNote } from '../types';
+import { NOTE_KINDS, createNote, formatNoteAnchor, getNotesInRange, notesToMarkdown, searchNotes, sortNotes } from '../services/noteService';
+import { formatAmountWithUnit, formatRange } from '../services/unitService';
+import { toDateKey } from '../services/sessionService';
+import { downloadFile, toFileSlug } from '../services/fileService';
+import DurationInput from './DurationInput';
+
+interface NotesPanelProps {
+  book: Book;
+  books: Book[];
+  today: Date;
+  onChange: (notes: ReadingNote[]) => void;
+  onSelectBook: (id: string) => void;
+}
+
+const NOTE_STYLES: Record<NoteKind, string> = {
+  note: 'text-gray-600 dark:text-gray-300',
+  quote: 'pl-3 border-l-2 border-indigo-300 dark:border-indigo-700 italic text-gray-700 dark:text-gray-200',
+  highlight: 'px-2 py-1 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200',
+};
+
+const inputClassName = "px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-indigo-500 transition-all text-[13px] font-bold outline-none [color-scheme:light] dark:[color-scheme:dark]";
+
+// Most recent sessions shown here; the Markdown export has the whole journal
+const JOURNAL_SESSIONS = 10;
+
+const NotesPanel: React.FC<NotesPanelProps> = ({ book, books, today, onChange, onSelectBook }) => {
+  const [kind, setKind] = useState<NoteKind>('note');
+  const [text, setText] = useState('');
+  const [startPage, setStartPage] = useState<number | null>(null);
+  const [endPage, setEndPage] = useState<number | null>(null);
+  const [date, setDate] = useState(() => toDateKey(today));
+  const [query, setQuery] = useState('');
+
+  // The anchor defaults to where you are in the book until it's edited
+  const anchorStart = startPage ?? Math.max(book.unit === 'percent' ? 0 : 1, book.pagesRead);
+  const anchorEnd = endPage ?? anchorStart;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || !date) return;
+    onChange([...book.notes, createNote(kind, text, anchorStart, anchorEnd, date)]);
+    setText('');
+    setStartPage(null);
+    setEndPage(null);
+  };
+
+  const renderNote = (note: ReadingNote, owner: Book = book) => (
+    <li key={note.id} className="group flex items-start gap-3">
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className={`text-[13px] font-bold whitespace-pre-wrap break-words ${NOTE_STYLES[note.kind]}`}>{note.text}</p>
+        <p className="text-[10px] font-black text-gray-400 dark:text-gray-500 uppercase tracking-widest">
+          {NOTE_KINDS.find(option => option.value === note.kind)?.label} · {formatNoteAnchor(owner.unit, note)} · {format(parseISO(note.date), 'MMM d, yyyy')}
+        </p>
+      </div>
+      {owner.id === book.id && (
+        <button
+          onClick={() => onChange(book.notes.filter(n => n.id !== note.id))}
+          title="Delete note"
+          className="p-1 rounded-lg text-gray-300 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-rose-500 transition-all"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </li>
+  );
+
+  const results = searchNotes(books, query);
+  const sessions = [...book.sessions].reverse().slice(0, JOURNAL_SESSIONS);
+  const unloggedNotes = book.notes.filter(note => !book.sessions.some(session => getNotesInRange([note], session.startPage, session.endPage).length > 0));
+  const isDuration = book.unit === 'duration';
+
+  return (
+    <div className="bg-white dark:bg-[#18181B] p-6 rounded-[2rem] border border-gray-100 dark:border-gray-800 shadow-xl shadow-indigo-500/5 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-[11px] font-black text-gray-400 dark:text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+          <NotebookPen className="w-3.5 h-3.5 text-indigo-500" /> Reading Journal
+        </h3>
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-300 dark:text-gray-600" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search all notes"
+              aria-label="Search notes across all books"
+              className={`pl-8 w-48 ${inputClassName}`}
+            />
+          </div>
+          <button
+            onClick={() => downloadFile(`${toFileSlug(book.bookTitle, 'book')}-journal.md`, notesToMarkdown(book), 'text/markdown')}
+            title="Download this book's journal as Markdown"
+            className="flex items-center gap-2 px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] text-[11px] font-black text-gray-500 dark:text-gray-400 uppercase tracking-widest hover:text-indigo-600 dark:hover:text-indigo-400 transition-all"
+          >
+            <Download className="w-3.5 h-3.5" /> MD
+          </button>
+        </div>
+      </div>
+
+      <form onSubmit={handleAdd} className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex p-1 rounded-xl bg-gray-50 dark:bg-[#09090B] text-[11px] font-black uppercase tracking-widest">
+            {NOTE_KINDS.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setKind(option.value)}
+                className={`px-3 py-1.5 rounded-lg transition-all ${kind === option.value ? 'bg-white dark:bg-[#18181B] text-indigo-600 dark:text-indigo-400 shadow-sm' : 'text-gray-400'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {isDuration ? (
+            <>
+              <DurationInput minutes={anchorStart} onChange={setStartPage} aria-label="From" className={`w-20 tabular-nums ${inputClassName}`} />
+              <DurationInput minutes={anchorEnd} onChange={setEndPage} aria-label="To" className={`w-20 tabular-nums ${inputClassName}`} />
+            </>
+          ) : (
+            <>
+              <input type="number" min={0} value={anchorStart} onChange={(e) => setStartPage(Math.max(0, parseInt(e.target.value, 10) || 0))} aria-label="From" className={`w-20 tabular-nums ${inputClassName}`} />
+              <input type="number" min={0} value={anchorEnd} onChange={(e) => setEndPage(Math.max(0, parseInt(e.target.value, 10) || 0))} aria-label="To" className={`w-20 tabular-nums ${inputClassName}`} />
+            </>
+          )}
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} aria-label="Date" className={inputClassName} />
+        </div>
+        <div className="flex items-start gap-2">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={2}
+            placeholder={kind === 'quote' ? 'Copy the passage word for word' : kind === 'highlight' ? 'What stood out?' : 'What are you thinking?'}
+            aria-label="Note text"
+            className={`flex-1 resize-y ${inputClassName}`}
+          />
+          <button
+            type="submit"
+            disabled={!text.trim()}
+            className="px-4 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white font-black text-xs uppercase tracking-widest transition-all active:scale-95"
+          >
+            Add
+          </button>
+        </div>
+      </form>
+
+      {query.trim() ? (
+        results.length === 0 ? (
+          <p className="text-xs font-bold text-gray-400 dark:text-gray-500">No notes match "{query.trim()}".</p>
+        ) : (
+          <ul className="space-y-4">
+            {results.map(({ book: owner, note }) => (
+              <li key={note.id} className="space-y-1">
+                <button
+                  onClick={() => onSelectBook(owner.id)}
+                  className="text-[10px] font-black text-indigo-500 uppercase tracking-widest hover:underline"
+                >
+                  {owner.bookTitle || 'Untitled Book'}
+                </button>
+                <ul>{renderNote(note, owner)}</ul>
+              </li>
+            ))}
+          </ul>
+        )
+      ) : sessions.length === 0 && book.notes.length === 0 ? (
+        <p className="text-xs font-bold text-gray-400 dark:text-gray-500">Capture notes, quotes and highlights as you go. They show up beside the sessions and roadmap days that cover them.</p>
+      ) : (
+        <div className="space-y-5">
+          {sessions.map(session => {
+            const notes = getNotesInRange(book.notes, session.startPage, session.endPage);
+            return (
+              <div key={session.id} className="space-y-2">
+                <p className="text-[11px] font-black text-gray-500 dark:text-gray-400 uppercase tracking-widest">
+                  {format(parseISO(session.date), 'EEE, MMM d')} · {formatRange(book.unit, session.startPage, session.endPage)} · {formatAmountWithUnit(book.unit, session.pagesRead)}
+                </p>
+                {notes.length > 0 && <ul className="space-y-3 pl-3 border-l border-gray-100 dark:border-gray-800">{notes.map(note => renderNote(note))}</ul>}
+              </div>
+            );
+          })}
+          {book.sessions.length > JOURNAL_SESSIONS && (
+            <p className="text-[11px] font-bold text-gray-400 dark:text-gray-500">Earlier sessions are in the Markdown export.</p>
+          )}
+          {unloggedNotes.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-[11px] font-black text-gray-500 dark:text-gray-400 uppercase tracking-widest">Not in a logged session</p>
+              <ul className="space-y-3 pl-3 border-l border-gray-100 dark:border-gray-800">{sortNotes(unloggedNotes).map(note => renderNote(note))}</ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotesPanel;
@@ -0,0 +1,91 @@
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Scale, TrendingDown, TrendingUp } from 'lucide-react';
+import { PlanBalance, ReadingUnit, RebalanceStrategy } from '../types';
+import { REBALANCE_STRATEGIES } from '../services/rebalanceService';
+import { formatAmountWithUnit } from '../services/unitService';
+
+interface PlanBalanceCardProps {
+  balance: PlanBalance;
+  unit: ReadingUnit;
+  strategy: RebalanceStrategy;
+  catchUpDays: number;
+  onStrategyChange: (strategy: RebalanceStrategy) => void;
+  onCatchUpDaysChange: (days: number) => void;
+}
+
+const PlanBalanceCard: React.FC<PlanBalanceCardProps> = ({ balance, unit, strategy, catchUpDays, onStrategyChange, onCatchUpDaysChange }) => {
+  const { pageDelta, projectedFinish, daysPastDeadline } = balance;
+  const activeStrategy = REBALANCE_STRATEGIES.find(s => s.value === strategy);
+
+  let deadlineText = 'No projection yet';
+  if (balance.deadlinePassed) {
+    deadlineText = 'Your deadline has passed, pick a new one';
+  } else if (projectedFinish && daysPastDeadline !== null) {
+    if (daysPastDeadline > 0) deadlineText = `${daysPastDeadline} day${daysPastDeadline === 1 ? '' : 's'} after your deadline`;
+    else if (daysPastDeadline < 0) deadlineText = `${-daysPastDeadline} day${daysPastDeadline === -1 ? '' : 's'} before your deadline`;
+    else deadlineText = 'Right on your deadline';
+  }
+
+  return (
+    <div className="bg-white dark:bg-[#18181B] p-6 rounded-[2rem] border border-gray-100 dark:border-gray-800 shadow-xl shadow-indigo-500/5 flex flex-col lg:flex-row lg:items-center gap-6">
+      <div className="flex items-center gap-4 lg:w-1/3">
+        <div className={`p-3 rounded-2xl ${
+          pageDelta < 0
+            ? 'bg-rose-100 dark:bg-rose-900/30 text-rose-600 dark:text-rose-400'
+            : 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400'
+        }`}>
+          {pageDelta < 0 ? <TrendingDown className="w-6 h-6" /> : <TrendingUp className="w-6 h-6" />}
+        </div>
+        <div>
+          <p className="text-xl font-black tracking-tight">
+            {pageDelta < 0 ? `Behind by ${formatAmountWithUnit(unit, -pageDelta)}` : pageDelta > 0 ? `Ahead by ${formatAmountWithUnit(unit, pageDelta)}` : 'On track'}
+          </p>
+          <p className="text-[11px] font-bold text-gray-400 uppercase tracking-wide">
+            {projectedFinish ? `${format(parseISO(projectedFinish), 'MMM dd')} · ` : ''}{deadlineText}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex-1 space-y-3">
+        <h3 className="text-[11px] font-black text-gray-400 dark:text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+          <Scale className="w-3.5 h-3.5 text-indigo-500" /> When Off Track
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          {REBALANCE_STRATEGIES.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onStrategyChange(option.value)}
+              className={`px-4 py-2 rounded-xl text-xs font-black transition-all active:scale-95 border ${
+                option.value === strategy
+                  ? 'bg-indigo-600 text-white border-indigo-600 shadow-lg shadow-indigo-500/20'
+                  : 'bg-gray-50 dark:bg-[#09090B] text-gray-500 dark:text-gray-400 border-transparent hover:border-indigo-200 dark:hover:border-indigo-900/50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          {strategy === 'catchup' && (
+            <label className="flex items-center gap-2 text-[11px] font-bold text-gray-400 uppercase tracking-wide">
+              over
+              <input
+                type="number"
+                min={1}
+                value={catchUpDays || ''}
+                onChange={(e) => onCatchUpDaysChange(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                className="w-16 px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-indigo-500 transition-all text-[14px] font-black outline-none tabular-nums text-gray-900 dark:text-white"
+              />
+              days
+            </label>
+          )}
+        </div>
+        {activeStrategy && (
+          <p className="text-xs font-bold text-gray-400 dark:text-gray-500">{activeStrategy.description}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlanBalanceCard;
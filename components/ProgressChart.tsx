@@ -0,0 +1,122 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { addDays, differenceInDays, format, isValid, parseISO } from 'date-fns';
+import { ChartPoint, ProgressChartData, ReadingUnit } from '../types';
+import { formatPosition } from '../services/unitService';
+
+interface ProgressChartProps {
+  data: ProgressChartData;
+  unit: ReadingUnit;
+}
+
+const HEIGHT = 260;
+const MARGIN = { top: 24, right: 16, bottom: 28, left: 52 };
+const X_TICKS = 5;
+const Y_TICKS = [0, 0.25, 0.5, 0.75, 1];
+
+const LEGEND = [
+  { label: 'Planned', className: 'bg-indigo-500' },
+  { label: 'Actual', className: 'bg-emerald-500' },
+  { label: 'At current velocity', className: 'bg-amber-400' },
+];
+
+// Planned versus actual cumulative progress. The SVG is drawn at the container's measured width rather
+// than scaled through a viewBox, so labels stay legible on phones and wide screens alike.
+const ProgressChart: React.FC<ProgressChartProps> = ({ data, unit }) => {
+  const container = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(640);
+
+  useEffect(() => {
+    const element = container.current;
+    if (!element || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(entries => setWidth(Math.max(280, entries[0].contentRect.width)));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const origin = parseISO(data.originDate);
+  const dayOf = (date: string) => differenceInDays(parseISO(date), origin);
+  const lastPlanned = data.planned[data.planned.length - 1];
+  // A cleared or malformed deadline is left off the chart instead of turning the axis into NaN
+  const deadlineDay = data.deadline && isValid(parseISO(data.deadline)) ? dayOf(data.deadline) : null;
+  const span = Math.max(1, dayOf(lastPlanned.date), deadlineDay ?? 0, dayOf(data.today) + 1);
+
+  const plotWidth = width - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const x = (day: number) => MARGIN.left + (day / span) * plotWidth;
+  const y = (pages: number) => MARGIN.top + plotHeight - (pages / Math.max(1, data.totalPages)) * plotHeight;
+
+  // A projection finishing past the chart's end is cut at the edge rather than squashing the plan
+  const clip = (points: ChartPoint[]) => {
+    if (points.length < 2) return points.map(point => ({ day: dayOf(point.date), pages: point.pages }));
+    const [from, to] = [points[0], points[points.length - 1]];
+    const [fromDay, toDay] = [dayOf(from.date), dayOf(to.date)];
+    if (toDay <= span) return [{ day: fromDay, pages: from.pages }, { day: toDay, pages: to.pages }];
+    const pagesAtEdge = from.pages + ((to.pages - from.pages) * (span - fromDay)) / Math.max(1, toDay - fromDay);
+    return [{ day: fromDay, pages: from.pages }, { day: span, pages: pagesAtEdge }];
+  };
+
+  const toPoints = (points: { day: number; pages: number }[]) =>
+    points.map(point => `${x(point.day).toFixed(1)},${y(point.pages).toFixed(1)}`).join(' ');
+
+  const planned = toPoints(data.planned.map(point => ({ day: dayOf(point.date), pages: point.pages })));
+  const actual = toPoints(data.actual.map(point => ({ day: dayOf(point.date), pages: point.pages })));
+  const projection = toPoints(clip(data.projection));
+
+  // Points sit at the end of their day, so today's marker goes at the end of today
+  const todayX = x(dayOf(data.today));
+  const deadlineX = deadlineDay !== null ? x(deadlineDay) : null;
+  const xTicks = Array.from({ length: X_TICKS }, (_, index) => Math.round((span * index) / (X_TICKS - 1)));
+
+  return (
+    <div ref={container} className="w-full overflow-hidden space-y-3">
+      <svg width={width} height={HEIGHT} className="block" role="img" aria-label="Planned versus actual reading progress">
+        {Y_TICKS.map(fraction => (
+          <g key={fraction}>
+            <line x1={MARGIN.left} x2={width - MARGIN.right} y1={y(data.totalPages * fraction)} y2={y(data.totalPages * fraction)} className="stroke-gray-100 dark:stroke-gray-800" strokeWidth={1} />
+            <text x={MARGIN.left - 8} y={y(data.totalPages * fraction)} textAnchor="end" dominantBaseline="middle" className="fill-gray-400 dark:fill-gray-500 text-[10px] font-bold tabular-nums">
+              {formatPosition(unit, Math.round(data.totalPages * fraction))}
+            </text>
+          </g>
+        ))}
+        {xTicks.map(day => (
+          <text key={day} x={x(day)} y={HEIGHT - 8} textAnchor="middle" className="fill-gray-400 dark:fill-gray-500 text-[10px] font-bold">
+            {format(addDays(origin, day), 'MMM d')}
+          </text>
+        ))}
+
+        {deadlineX !== null && deadlineX >= MARGIN.left && deadlineX <= width - MARGIN.right && (
+          <g>
+            <line x1={deadlineX} x2={deadlineX} y1={MARGIN.top} y2={MARGIN.top + plotHeight} className="stroke-rose-400 dark:stroke-rose-500" strokeWidth={1.5} strokeDasharray="4 4" />
+            <text x={deadlineX} y={MARGIN.top - 8} textAnchor="middle" className="fill-rose-500 text-[10px] font-black uppercase tracking-widest">Deadline</text>
+          </g>
+        )}
+        {todayX >= MARGIN.left && todayX <= width - MARGIN.right && (
+          <g>
+            <line x1={todayX} x2={todayX} y1={MARGIN.top} y2={MARGIN.top + plotHeight} className="stroke-orange-400" strokeWidth={1.5} />
+            <text x={todayX} y={MARGIN.top - 8} textAnchor="middle" className="fill-orange-500 text-[10px] font-black uppercase tracking-widest">Today</text>
+          </g>
+        )}
+
+        <polyline points={planned} fill="none" className="stroke-indigo-500" strokeWidth={2.5} strokeLinejoin="round" strokeLinecap="round" />
+        {projection && (
+          <polyline points={projection} fill="none" className="stroke-amber-400" strokeWidth={2} strokeDasharray="6 5" strokeLinecap="round" />
+        )}
+        <polyline points={actual} fill="none" className="stroke-emerald-500" strokeWidth={3} strokeLinejoin="round" strokeLinecap="round" />
+        {data.actual.length > 0 && (
+          <circle cx={todayX} cy={y(data.actual[data.actual.length - 1].pages)} r={4.5} className="fill-emerald-500 stroke-white dark:stroke-[#18181B]" strokeWidth={2} />
+        )}
+      </svg>
+
+      <div className="flex flex-wrap gap-x-5 gap-y-2 pl-2">
+        {LEGEND.map(entry => (
+          <span key={entry.label} className="flex items-center gap-2 text-[10px] font-black text-gray-400 dark:text-gray-500 uppercase tracking-widest">
+            <span className={`w-3 h-1 rounded-full ${entry.className}`} /> {entry.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProgressChart;
@@ -0,0 +1,124 @@
+
+import React from 'react';
+import { ChevronDown, ChevronUp, ListOrdered } from 'lucide-react';
+import { Book, QueueProjection, ReadingQueue } from '../types';
+import { MAX_QUEUE_LANES } from '../services/libraryService';
+import { getQueuePace, moveInQueue } from '../services/queueService';
+import { formatScheduleDate } from '../services/planner';
+import { UNIT_INFO } from '../services/unitService';
+
+interface QueuePanelProps {
+  books: Book[];
+  queue: ReadingQueue;
+  projections: QueueProjection[];
+  activeBookId: string;
+  onChange: (queue: ReadingQueue) => void;
+  onSelect: (id: string) => void;
+}
+
+const LANE_COLORS = ['bg-indigo-500', 'bg-pink-500', 'bg-emerald-500'];
+
+const inputClassName = "px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-indigo-500 transition-all text-[13px] font-bold outline-none tabular-nums";
+
+const QueuePanel: React.FC<QueuePanelProps> = ({ books, queue, projections, activeBookId, onChange, onSelect }) => {
+  const byId = new Map<string, Book>(books.map(book => [book.id, book]));
+
+  return (
+    <div className="bg-white dark:bg-[#18181B] p-6 rounded-[2rem] border border-gray-100 dark:border-gray-800 shadow-xl shadow-indigo-500/5 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-[11px] font-black text-gray-400 dark:text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+          <ListOrdered className="w-3.5 h-3.5 text-indigo-500" /> Reading Queue
+        </h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex p-1 rounded-xl bg-gray-50 dark:bg-[#09090B] text-[11px] font-black uppercase tracking-widest">
+            {Array.from({ length: MAX_QUEUE_LANES }, (_, index) => index + 1).map(lanes => (
+              <button
+                key={lanes}
+                onClick={() => onChange({ ...queue, lanes })}
+                title={lanes === 1 ? 'One book at a time' : `${lanes} books at once`}
+                className={`px-3 py-1.5 rounded-lg transition-all ${queue.lanes === lanes ? 'bg-white dark:bg-[#18181B] text-indigo-600 dark:text-indigo-400 shadow-sm' : 'text-gray-400'}`}
+              >
+                {lanes} at once
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-[11px] font-bold text-gray-400 uppercase tracking-wide">
+            Shared budget
+            <input
+              type="number"
+              min={0}
+              value={queue.dailyBudget || ''}
+              onChange={(e) => onChange({ ...queue, dailyBudget: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+              placeholder="Off"
+              aria-label="Pages per day shared between books"
+              className={`w-20 ${inputClassName} text-gray-900 dark:text-white`}
+            />
+            pages / day
+          </label>
+        </div>
+      </div>
+
+      {projections.length === 0 ? (
+        <p className="text-xs font-bold text-gray-400 dark:text-gray-500">Books you are reading or have queued line up here, each starting when the one before it is projected to finish.</p>
+      ) : (
+        <ol className="space-y-2">
+          {projections.map((projection, index) => {
+            const book = byId.get(projection.bookId);
+            if (!book) return null;
+            // Books being read stay ahead of queued ones, so moves only happen within each group
+            const isReading = (position: number) => byId.get(projections[position]?.bookId ?? '')?.status === 'reading';
+            return (
+              <li
+                key={projection.bookId}
+                className={`flex items-center gap-3 p-3 rounded-2xl border transition-all ${
+                  projection.bookId === activeBookId
+                    ? 'border-indigo-200 dark:border-indigo-900/50 bg-indigo-50/50 dark:bg-indigo-900/10'
+                    : 'border-gray-100 dark:border-gray-800'
+                }`}
+              >
+                <span className="w-5 text-[11px] font-black text-gray-400 tabular-nums">{index + 1}</span>
+                {queue.lanes > 1 && <span className={`w-2 h-8 rounded-full ${LANE_COLORS[projection.lane % LANE_COLORS.length]}`} title={`Lane ${projection.lane + 1}`} />}
+                <button onClick={() => onSelect(book.id)} className="flex-1 min-w-0 text-left">
+                  <p className="text-[14px] font-black tracking-tight truncate">{book.bookTitle || 'Untitled Book'}</p>
+                  <p className="text-[11px] font-bold text-gray-400 uppercase tracking-wide">
+                    {book.status === 'reading' ? 'Reading' : 'Queued'} · {getQueuePace(book, queue)} {UNIT_INFO[book.unit].noun} / day
+                  </p>
+                </button>
+                <p className="text-right text-[12px] font-black tabular-nums text-gray-600 dark:text-gray-300 whitespace-nowrap">
+                  {projection.finishDate ? (
+                    <>
+                      {formatScheduleDate(projection.startDate)}
+                      <span className="block text-indigo-600 dark:text-indigo-400">→ {formatScheduleDate(projection.finishDate)}{projection.truncated ? '+' : ''}</span>
+                    </>
+                  ) : (
+                    <span className="text-gray-400">Not scheduled</span>
+                  )}
+                </p>
+                <div className="flex flex-col">
+                  <button
+                    onClick={() => onChange(moveInQueue(queue, books, book.id, -1))}
+                    disabled={index === 0 || isReading(index - 1) !== isReading(index)}
+                    title="Move up"
+                    className="p-0.5 rounded text-gray-400 hover:text-indigo-500 disabled:opacity-20 transition-all"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onChange(moveInQueue(queue, books, book.id, 1))}
+                    disabled={index === projections.length - 1 || isReading(index + 1) !== isReading(index)}
+                    title="Move down"
+                    className="p-0.5 rounded text-gray-400 hover:text-indigo-500 disabled:opacity-20 transition-all"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default QueuePanel;
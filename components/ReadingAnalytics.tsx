@@ -0,0 +1,65 @@
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Activity, Award, Flame, Gauge, TrendingUp } from 'lucide-react';
+import { ReadingStats } from '../types';
+import ReadingHeatmap from './ReadingHeatmap';
+
+interface ReadingAnalyticsProps {
+  stats: ReadingStats;
+  history: Record<string, number>;
+  today: Date;
+}
+
+const formatAverage = (value: number) => (value >= 10 ? Math.round(value).toString() : value.toFixed(1));
+
+const ReadingAnalytics: React.FC<ReadingAnalyticsProps> = ({ stats, history, today }) => {
+  const tiles = [
+    { label: 'Current Streak', value: stats.currentStreak, unit: stats.currentStreak === 1 ? 'day' : 'days', icon: Flame, color: 'text-orange-500' },
+    { label: 'Longest Streak', value: stats.longestStreak, unit: stats.longestStreak === 1 ? 'day' : 'days', icon: Award, color: 'text-amber-500' },
+    { label: '7-Day Average', value: formatAverage(stats.sevenDayAverage), unit: 'pages / day', icon: Gauge, color: 'text-indigo-500' },
+    { label: '30-Day Average', value: formatAverage(stats.thirtyDayAverage), unit: 'pages / day', icon: TrendingUp, color: 'text-purple-500' },
+    {
+      label: 'Best Day',
+      value: stats.bestDay ? stats.bestDay.pages : '--',
+      unit: stats.bestDay ? format(parseISO(stats.bestDay.date), 'MMM dd, yyyy') : 'no sessions yet',
+      icon: Activity,
+      color: 'text-emerald-500'
+    },
+  ];
+
+  return (
+    <section className="bg-white dark:bg-[#18181B] rounded-[2.5rem] border border-gray-100 dark:border-gray-800 shadow-2xl shadow-indigo-500/5 overflow-hidden">
+      <div className="px-8 py-8 border-b border-gray-100 dark:border-gray-800 bg-gradient-to-r from-indigo-50/30 to-transparent dark:from-indigo-950/10 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="space-y-1">
+          <h3 className="text-2xl font-black tracking-tight flex items-center gap-2">
+            <Activity className="w-6 h-6 text-indigo-500" /> Reading History
+          </h3>
+          <p className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest">What you actually read, across every book</p>
+        </div>
+        <div className="hidden sm:block px-4 py-2 rounded-2xl bg-indigo-50 dark:bg-indigo-900/20 text-[11px] font-black text-indigo-600 dark:text-indigo-400 border border-indigo-100 dark:border-indigo-900/30 uppercase tracking-widest">
+          {stats.totalPages} pages · {stats.activeDays} days
+        </div>
+      </div>
+
+      <div className="p-8 space-y-8">
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-4">
+          {tiles.map(tile => (
+            <div key={tile.label} className="p-4 rounded-2xl bg-gray-50 dark:bg-[#09090B] space-y-2">
+              <div className="flex items-center gap-2">
+                <tile.icon className={`w-4 h-4 ${tile.color}`} />
+                <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{tile.label}</span>
+              </div>
+              <div className="text-3xl font-black tabular-nums tracking-tighter">{tile.value}</div>
+              <div className="text-[11px] font-bold text-gray-400">{tile.unit}</div>
+            </div>
+          ))}
+        </div>
+
+        <ReadingHeatmap history={history} today={today} />
+      </div>
+    </section>
+  );
+};
+
+export default ReadingAnalytics;
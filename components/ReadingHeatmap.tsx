@@ -0,0 +1,69 @@
+
+import React, { useMemo } from 'react';
+import { addDays, format, getDay, isAfter, subWeeks, startOfDay } from 'date-fns';
+import { toDateKey } from '../services/sessionService';
+
+interface ReadingHeatmapProps {
+  history: Record<string, number>;
+  today: Date;
+  weeks?: number;
+}
+
+const LEVEL_CLASSES = [
+  'bg-gray-100 dark:bg-gray-800/60',
+  'bg-indigo-200 dark:bg-indigo-900',
+  'bg-indigo-400 dark:bg-indigo-700',
+  'bg-indigo-500 dark:bg-indigo-500',
+  'bg-indigo-700 dark:bg-indigo-300',
+];
+
+const ReadingHeatmap: React.FC<ReadingHeatmapProps> = ({ history, today, weeks = 53 }) => {
+  const columns = useMemo(() => {
+    const end = startOfDay(today);
+    // Start on the Sunday that opens the first visible week, like GitHub's contribution graph
+    const firstWeek = subWeeks(end, weeks - 1);
+    const start = addDays(firstWeek, -getDay(firstWeek));
+    const max = Object.keys(history).reduce((highest, key) => Math.max(highest, history[key]), 0);
+
+    const result: { key: string; date: Date; pages: number; level: number; future: boolean }[][] = [];
+    for (let week = 0; week < weeks; week++) {
+      const column = [];
+      for (let day = 0; day < 7; day++) {
+        const date = addDays(start, week * 7 + day);
+        const key = toDateKey(date);
+        const pages = history[key] ?? 0;
+        const level = pages <= 0 || max <= 0 ? 0 : Math.min(4, Math.ceil((pages / max) * 4));
+        column.push({ key, date, pages, level, future: isAfter(date, end) });
+      }
+      result.push(column);
+    }
+    return result;
+  }, [history, today, weeks]);
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex gap-[3px] w-fit">
+        {columns.map(column => (
+          <div key={column[0].key} className="flex flex-col gap-[3px]">
+            {column.map(cell => (
+              <div
+                key={cell.key}
+                title={cell.future ? undefined : `${format(cell.date, 'MMM dd, yyyy')}: ${cell.pages} pages`}
+                className={`w-3 h-3 rounded-[3px] ${cell.future ? 'opacity-0' : LEVEL_CLASSES[cell.level]}`}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-end gap-1 mt-3 text-[10px] font-black text-gray-400 uppercase tracking-widest">
+        <span className="mr-1">Less</span>
+        {LEVEL_CLASSES.map(levelClass => (
+          <div key={levelClass} className={`w-3 h-3 rounded-[3px] ${levelClass}`} />
+        ))}
+        <span className="ml-1">More</span>
+      </div>
+    </div>
+  );
+};
+
+export default ReadingHeatmap;
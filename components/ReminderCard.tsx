@@ -0,0 +1,71 @@
+
+import React, { useState } from 'react';
+import { BellRing } from 'lucide-react';
+import { ReminderSettings } from '../types';
+import { isNotificationSupported, requestNotificationPermission, showReminder } from '../services/reminderService';
+
+interface ReminderCardProps {
+  settings: ReminderSettings;
+  preview: { title: string; body: string } | null;
+  onChange: (settings: ReminderSettings) => void;
+}
+
+const ReminderCard: React.FC<ReminderCardProps> = ({ settings, preview, onChange }) => {
+  const supported = isNotificationSupported();
+  const [permission, setPermission] = useState<NotificationPermission>(() => (supported ? Notification.permission : 'denied'));
+
+  const handleToggle = async (enabled: boolean) => {
+    if (enabled) {
+      const result = await requestNotificationPermission();
+      setPermission(result);
+      if (result !== 'granted') return;
+    }
+    onChange({ ...settings, enabled });
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#18181B] p-6 rounded-[2rem] border border-gray-100 dark:border-gray-800 shadow-xl shadow-indigo-500/5 space-y-4">
+      <h3 className="text-[11px] font-black text-gray-400 dark:text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+        <BellRing className="w-3.5 h-3.5 text-indigo-500" /> Daily Reminder
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-3 text-[13px] font-bold text-gray-600 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            disabled={!supported || permission === 'denied'}
+            onChange={(e) => handleToggle(e.target.checked)}
+            className="h-4 w-4 accent-indigo-500"
+          />
+          Remind me to read at
+        </label>
+        <input
+          type="time"
+          value={settings.time}
+          onChange={(e) => e.target.value && onChange({ ...settings, time: e.target.value, lastShown: null })}
+          aria-label="Reminder time"
+          className="px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-indigo-500 transition-all text-[13px] font-bold outline-none tabular-nums [color-scheme:light] dark:[color-scheme:dark]"
+        />
+        {settings.enabled && preview && (
+          <button
+            onClick={() => showReminder(preview.title, preview.body)}
+            className="px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] text-[11px] font-black text-gray-500 dark:text-gray-400 uppercase tracking-widest hover:text-indigo-600 dark:hover:text-indigo-400 transition-all"
+          >
+            Send Test
+          </button>
+        )}
+      </div>
+
+      <p className="text-xs font-bold text-gray-400 dark:text-gray-500">
+        {!supported
+          ? 'This browser does not support notifications.'
+          : permission === 'denied'
+            ? 'Notifications are blocked for BookBound. Allow them in your browser settings to get reminders.'
+            : "You'll get today's target and page range at this time unless the day is already done. BookBound has to be open for it to fire; if it was closed, the reminder shows when you next open it that day."}
+      </p>
+    </div>
+  );
+};
+
+export default ReminderCard;
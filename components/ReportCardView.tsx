@@ -0,0 +1,83 @@
+
+import React, { useState } from 'react';
+import { FileCode, ImageDown, PartyPopper } from 'lucide-react';
+import { ReportCard } from '../types';
+import { renderReportCardPng, reportCardToHtml } from '../services/reportCardService';
+import { downloadBlob, downloadFile } from '../services/fileService';
+
+interface ReportCardViewProps {
+  card: ReportCard;
+  // File name stem for exports, e.g. "the-hobbit-wrapped"
+  fileStem: string;
+  children?: React.ReactNode;
+}
+
+// A retrospective summary with HTML and PNG exports; children sit next to the export buttons
+const ReportCardView: React.FC<ReportCardViewProps> = ({ card, fileStem, children }) => {
+  const [exporting, setExporting] = useState(false);
+
+  const handlePng = async () => {
+    setExporting(true);
+    try {
+      downloadBlob(`${fileStem}.png`, await renderReportCardPng(card));
+    } catch (e) {
+      console.error("Failed to render report card", e);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <section className="bg-white dark:bg-[#18181B] rounded-[2.5rem] border border-gray-100 dark:border-gray-800 shadow-2xl shadow-indigo-500/5 overflow-hidden">
+      <div className="px-8 py-8 bg-gradient-to-br from-indigo-500 via-purple-500 to-pink-500 text-white flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div className="space-y-1 min-w-0">
+          <p className="text-[11px] font-black uppercase tracking-[0.2em] opacity-80 flex items-center gap-2">
+            <PartyPopper className="w-3.5 h-3.5" /> {card.eyebrow}
+          </p>
+          <h3 className="text-3xl font-black tracking-tight leading-tight truncate">{card.title}</h3>
+          <p className="text-sm font-bold opacity-90">{card.subtitle}</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {children}
+          <button
+            onClick={() => downloadFile(`${fileStem}.html`, reportCardToHtml(card), 'text/html')}
+            title="Download as a web page"
+            className="flex items-center gap-2 px-3 py-2 rounded-xl bg-white/20 hover:bg-white/30 text-[11px] font-black uppercase tracking-widest transition-all active:scale-95"
+          >
+            <FileCode className="w-4 h-4" /> HTML
+          </button>
+          <button
+            onClick={handlePng}
+            disabled={exporting}
+            title="Download as an image"
+            className="flex items-center gap-2 px-3 py-2 rounded-xl bg-white/20 hover:bg-white/30 disabled:opacity-50 text-[11px] font-black uppercase tracking-widest transition-all active:scale-95"
+          >
+            <ImageDown className="w-4 h-4" /> PNG
+          </button>
+        </div>
+      </div>
+
+      <div className="p-8 space-y-6">
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+          {card.stats.map(stat => (
+            <div key={stat.label} className="p-4 rounded-2xl bg-gray-50 dark:bg-[#09090B] space-y-1">
+              <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{stat.label}</p>
+              <p className="text-2xl font-black tabular-nums tracking-tight">{stat.value}</p>
+              {stat.detail && <p className="text-[11px] font-bold text-gray-400">{stat.detail}</p>}
+            </div>
+          ))}
+        </div>
+
+        {card.highlights.length > 0 && (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+            {card.highlights.map(line => (
+              <li key={line} className="py-2.5 text-[13px] font-bold text-gray-600 dark:text-gray-300">{line}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default ReportCardView;
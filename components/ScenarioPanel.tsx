@@ -0,0 +1,173 @@
+
+import React, { useState } from 'react';
+import { differenceInDays, parseISO } from 'date-fns';
+import { Plus, Split, X } from 'lucide-react';
+import { Book, PlanScenario, ReadingAvailability, ScenarioProjection } from '../types';
+import { CURRENT_SCENARIO, SCENARIO_DAY_PRESETS, createScenario, projectScenario } from '../services/scenarioService';
+import { formatScheduleDate } from '../services/planner';
+import { UNIT_INFO, formatGoal } from '../services/unitService';
+
+interface ScenarioPanelProps {
+  book: Book;
+  availability: ReadingAvailability;
+  today: Date;
+  onAdopt: (book: Book, availability: ReadingAvailability) => void;
+}
+
+const MAX_SCENARIOS = 3;
+
+const SCENARIO_COLORS = ['#6366f1', '#ec4899', '#10b981', '#f59e0b'];
+
+const inputClassName = "px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] border-2 border-transparent focus:border-indigo-500 transition-all text-[13px] font-bold outline-none [color-scheme:light] dark:[color-scheme:dark]";
+
+const CHART_WIDTH = 240;
+const CHART_HEIGHT = 72;
+
+// Cumulative progress on axes shared by every scenario, so the lines can be compared across cards
+const ScenarioSparkline: React.FC<{ projection: ScenarioProjection; color: string; days: number; total: number; today: Date }> = ({ projection, color, days, total, today }) => {
+  const x = (dayOffset: number) => (dayOffset / Math.max(1, days)) * CHART_WIDTH;
+  const y = (pagesRead: number) => CHART_HEIGHT - (pagesRead / Math.max(1, total)) * CHART_HEIGHT;
+  // The first point is the start of today; every scheduled day is plotted at its end
+  const points = projection.progress
+    .map((point, index) => `${x(index === 0 ? 0 : differenceInDays(parseISO(point.date), today) + 1).toFixed(1)},${y(point.pagesRead).toFixed(1)}`)
+    .join(' ');
+  const deadlineX = x(differenceInDays(parseISO(projection.book.targetFinishDate), today) + 1);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-[72px] overflow-visible" role="img" aria-label={`Cumulative progress for ${projection.scenario.name}`}>
+      <line x1={0} y1={CHART_HEIGHT} x2={CHART_WIDTH} y2={CHART_HEIGHT} className="stroke-gray-200 dark:stroke-gray-700" strokeWidth={1} />
+      {deadlineX >= 0 && deadlineX <= CHART_WIDTH && (
+        <line x1={deadlineX} y1={0} x2={deadlineX} y2={CHART_HEIGHT} className="stroke-rose-300 dark:stroke-rose-800" strokeWidth={1} strokeDasharray="3 3" />
+      )}
+      <polyline points={points} fill="none" stroke={color} strokeWidth={2.5} strokeLinejoin="round" strokeLinecap="round" />
+    </svg>
+  );
+};
+
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ book, availability, today, onAdopt }) => {
+  const [scenarios, setScenarios] = useState<PlanScenario[]>([]);
+  const [pace, setPace] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [days, setDays] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const pagesPerDay = parseInt(pace, 10);
+    const overrides = {
+      pagesPerDay: pagesPerDay > 0 ? pagesPerDay : null,
+      targetFinishDate: deadline || null,
+      weekdayWeights: days ? SCENARIO_DAY_PRESETS[Number(days)].weekdayWeights : null,
+    };
+    if (overrides.pagesPerDay === null && overrides.targetFinishDate === null && overrides.weekdayWeights === null) return;
+    setScenarios(prev => [...prev, createScenario(book, overrides)]);
+    setPace('');
+    setDeadline('');
+    setDays('');
+  };
+
+  const projections = [CURRENT_SCENARIO, ...scenarios].map(scenario => projectScenario(book, availability, scenario, today));
+  const chartDays = Math.max(...projections.map(projection => {
+    const last = projection.progress[projection.progress.length - 1];
+    return Math.max(differenceInDays(parseISO(projection.book.targetFinishDate), today), differenceInDays(parseISO(last.date), today)) + 1;
+  }));
+
+  return (
+    <div className="bg-white dark:bg-[#18181B] p-6 rounded-[2rem] border border-gray-100 dark:border-gray-800 shadow-xl shadow-indigo-500/5 space-y-5">
+      <h3 className="text-[11px] font-black text-gray-400 dark:text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+        <Split className="w-3.5 h-3.5 text-indigo-500" /> What-If Scenarios
+      </h3>
+
+      {scenarios.length < MAX_SCENARIOS && (
+        <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2">
+          <input
+            type="number"
+            min={1}
+            value={pace}
+            onChange={(e) => setPace(e.target.value)}
+            placeholder={`${UNIT_INFO[book.unit].noun} / day`}
+            aria-label="Daily goal"
+            className={`w-36 tabular-nums ${inputClassName}`}
+          />
+          <input type="date" value={deadline} onChange={(e) => setDeadline(e.target.value)} aria-label="Finish by" className={inputClassName} />
+          <select value={days} onChange={(e) => setDays(e.target.value)} aria-label="Reading days" className={inputClassName}>
+            <option value="">Same reading days</option>
+            {SCENARIO_DAY_PRESETS.map((preset, index) => <option key={preset.label} value={index}>{preset.label}</option>)}
+          </select>
+          <button
+            type="submit"
+            disabled={!pace && !deadline && !days}
+            title="Add scenario"
+            className="p-2.5 rounded-xl bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-400 border border-indigo-100 dark:border-indigo-900/30 transition-all hover:bg-indigo-100 dark:hover:bg-indigo-900/40 disabled:opacity-40 active:scale-95"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </form>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+        {projections.map((projection, index) => {
+          const isCurrent = projection.scenario.id === CURRENT_SCENARIO.id;
+          return (
+            <div
+              key={projection.scenario.id}
+              className={`p-4 rounded-2xl border space-y-3 ${isCurrent ? 'border-indigo-200 dark:border-indigo-900/50 bg-indigo-50/40 dark:bg-indigo-900/10' : 'border-gray-100 dark:border-gray-800'}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: SCENARIO_COLORS[index % SCENARIO_COLORS.length] }} />
+                <span className="text-[13px] font-black truncate">{projection.scenario.name}</span>
+                {!isCurrent && (
+                  <button
+                    onClick={() => setScenarios(prev => prev.filter(s => s.id !== projection.scenario.id))}
+                    title="Remove scenario"
+                    className="ml-auto p-1 rounded-lg text-gray-300 hover:text-rose-500 transition-all"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+
+              <div>
+                <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Projected Finish</p>
+                <p className={`text-lg font-black ${projection.meetsDeadline ? 'text-gray-900 dark:text-white' : 'text-rose-500'}`}>
+                  {projection.finishDate ? formatScheduleDate(projection.finishDate) : 'Not within a year'}
+                </p>
+              </div>
+
+              <p className="text-[11px] font-bold text-gray-500 dark:text-gray-400 tabular-nums">
+                {formatGoal(projection.book, projection.averageLoad)} / day on average
+                {projection.peakLoad > projection.averageLoad + 0.5 && ` · up to ${formatGoal(projection.book, projection.peakLoad)}`}
+                {` · ${projection.readingDays} reading days`}
+              </p>
+
+              <ScenarioSparkline
+                projection={projection}
+                color={SCENARIO_COLORS[index % SCENARIO_COLORS.length]}
+                days={chartDays}
+                total={book.totalPages}
+                today={today}
+              />
+
+              {!isCurrent && (
+                <button
+                  onClick={() => {
+                    onAdopt(projection.book, projection.availability);
+                    setScenarios(prev => prev.filter(s => s.id !== projection.scenario.id));
+                  }}
+                  className="w-full px-3 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white font-black text-[11px] uppercase tracking-widest transition-all active:scale-95"
+                >
+                  Adopt Plan
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-xs font-bold text-gray-400 dark:text-gray-500">
+        Scenarios re-plan from today without touching your plan until you adopt one. The dashed line marks each scenario's deadline; changing reading days applies to all books.
+      </p>
+    </div>
+  );
+};
+
+export default ScenarioPanel;
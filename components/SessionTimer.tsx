@@ -0,0 +1,84 @@
+
+import React, { useEffect, useState } from 'react';
+import { Pause, Play, Square, Timer } from 'lucide-react';
+
+interface SessionTimerProps {
+  onStop: (minutes: number) => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  const clock = `${String(Math.floor(seconds / 60) % 60).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+  return seconds >= 3600 ? `${Math.floor(seconds / 3600)}:${clock}` : clock;
+};
+
+// Stopwatch for a reading session; stopping hands the time read, rounded to whole minutes, to the log form
+const SessionTimer: React.FC<SessionTimerProps> = ({ onStop }) => {
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [banked, setBanked] = useState(0);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (startedAt === null) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [startedAt]);
+
+  const elapsed = banked + (startedAt !== null ? Math.max(0, now - startedAt) : 0);
+  const isIdle = startedAt === null && banked === 0;
+
+  const start = () => {
+    setNow(Date.now());
+    setStartedAt(Date.now());
+  };
+
+  const pause = () => {
+    setBanked(elapsed);
+    setStartedAt(null);
+  };
+
+  const stop = () => {
+    onStop(Math.max(1, Math.round(elapsed / 60_000)));
+    setBanked(0);
+    setStartedAt(null);
+  };
+
+  if (isIdle) {
+    return (
+      <button
+        type="button"
+        onClick={start}
+        title="Time this session to measure your reading speed"
+        className="flex items-center gap-2 px-3 py-2 rounded-xl bg-gray-50 dark:bg-[#09090B] text-[11px] font-black text-gray-500 dark:text-gray-400 uppercase tracking-widest hover:text-indigo-600 dark:hover:text-indigo-400 transition-all active:scale-95"
+      >
+        <Timer className="w-4 h-4" /> Start Timer
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1 p-1 rounded-xl bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-100 dark:border-indigo-900/30">
+      <span className={`px-2 text-[14px] font-black tabular-nums ${startedAt !== null ? 'text-indigo-600 dark:text-indigo-400' : 'text-gray-400'}`}>
+        {formatElapsed(elapsed)}
+      </span>
+      <button
+        type="button"
+        onClick={startedAt !== null ? pause : start}
+        title={startedAt !== null ? 'Pause' : 'Resume'}
+        className="p-1.5 rounded-lg text-indigo-500 hover:bg-white dark:hover:bg-[#18181B] transition-all"
+      >
+        {startedAt !== null ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </button>
+      <button
+        type="button"
+        onClick={stop}
+        title="Stop and fill in the minutes"
+        className="p-1.5 rounded-lg text-rose-500 hover:bg-white dark:hover:bg-[#18181B] transition-all"
+      >
+        <Square className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default SessionTimer;
@@ -2,16 +2,69 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { createEmptyLibrary } from './services/libraryService';
+import {
+  LibraryStore,
+  LoadedLibrary,
+  createLibraryStore,
+  createLocalStorageBackend,
+  createMemoryBackend,
+  openLibraryStore,
+} from './services/storageService';
+
+interface Startup extends LoadedLibrary {
+  store: LibraryStore;
+  loadError?: string;
+}
+
+// The app still opens when saved data can't be read: from localStorage if that loads, otherwise with
+// an empty library kept in memory, and either way with the problem shown at the top of the page
+const openFallback = async (): Promise<Startup> => {
+  try {
+    const store = createLibraryStore(createLocalStorageBackend());
+    return {
+      store,
+      ...(await store.load()),
+      loadError: "Your saved library couldn't be opened, so BookBound is using the copy kept in this browser's local storage.",
+    };
+  } catch (e) {
+    console.error("Failed to load from localStorage as well:", e);
+    return {
+      store: createLibraryStore(createMemoryBackend()),
+      library: createEmptyLibrary(),
+      quarantined: [],
+      loadError: "Your saved library couldn't be opened and nothing can be saved in this browser right now. Changes will be lost when you close the page, so export a backup before leaving.",
+    };
+  }
+};
 
 const container = document.getElementById('root');
 
 if (container) {
   const root = createRoot(container);
-  root.render(
-    <React.StrictMode>
-      <App />
-    </React.StrictMode>
-  );
+  // IndexedDB is asynchronous, so the app renders once the saved library has loaded
+  openLibraryStore()
+    .then(async (store): Promise<Startup> => ({ store, ...(await store.load()) }))
+    .catch(error => {
+      console.error("Failed to load saved data:", error);
+      return openFallback();
+    })
+    .then(({ store, library, quarantined, loadError }) => {
+      root.render(
+        <React.StrictMode>
+          <App store={store} initialLibrary={library} initialQuarantine={quarantined} loadError={loadError} />
+        </React.StrictMode>
+      );
+    });
 } else {
   console.error("Root element not found. The application cannot start.");
 }
+
+// Only production builds get the offline cache; in development it would serve stale modules
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('./sw.js').catch(error => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+}
@@ -0,0 +1,90 @@
+// BookBound service worker: keeps the app shell available offline and opens the app from reminders.
+// Lives in public/ so it is served unbundled from the app root.
+
+const CACHE_NAME = 'bookbound-shell-v2';
+
+// Third-party hosts the shell loads from (Tailwind, fonts, book covers); their responses are cached as they are used
+const CACHEABLE_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh', 'covers.openlibrary.org'];
+
+// The page that registered us was loaded before the worker existed, so read the asset list
+// out of index.html rather than waiting for those files to be requested again
+const getShellUrls = async () => {
+  const response = await fetch('./index.html', { cache: 'no-store' });
+  const html = await response.text();
+  const assets = [...html.matchAll(/(?:src|href)="([^"]+)"/g)]
+    .map(match => match[1])
+    .filter(url => !url.startsWith('data:'));
+  return ['./', './index.html', ...assets];
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    const urls = await getShellUrls();
+    // One unreachable asset (say, a blocked font) shouldn't stop the rest from being cached
+    await Promise.all(urls.map(url => cache.add(new Request(url, { mode: new URL(url, self.location.href).origin === self.location.origin ? 'same-origin' : 'no-cors' })).catch(() => undefined)));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => key.startsWith('bookbound-') && key !== CACHE_NAME).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+const isCacheable = (url) => url.origin === self.location.origin || CACHEABLE_HOSTS.includes(url.hostname);
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Pages: network first so a new deploy shows up, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      try {
+        const response = await fetch(request);
+        // Only a good page replaces the offline shell; a 404 or 500 would otherwise be served offline
+        if (response.ok) {
+          const copy = response.clone();
+          event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.put('./index.html', copy)));
+        }
+        return response;
+      } catch (e) {
+        return (await caches.match('./index.html')) || Response.error();
+      }
+    })());
+    return;
+  }
+
+  if (!isCacheable(url)) return;
+
+  // Assets: serve from cache straight away and refresh it in the background
+  event.respondWith((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    const cached = await cache.match(request);
+    const refresh = fetch(request)
+      .then(response => {
+        if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+        return response;
+      })
+      .catch(() => cached || Response.error());
+    if (cached) {
+      event.waitUntil(refresh);
+      return cached;
+    }
+    return refresh;
+  })());
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) return windows[0].focus();
+    return self.clients.openWindow('./');
+  })());
+});
@@ -0,0 +1,121 @@
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createSyncServer } from './syncServer';
+
+const server = createSyncServer({ today: () => '2026-03-02' });
+let baseUrl = '';
+
+beforeAll(() => new Promise<void>(resolve => {
+  server.listen(0, () => {
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    resolve();
+  });
+}));
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const post = (path: string, body: string) =>
+  fetch(`${baseUrl}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+const call = async (method: string, path: string, body?: unknown, token?: string) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: response.status === 204 ? null : await response.json() };
+};
+
+const reading = { bookTitle: 'Dune', totalPages: 412, pagesPerDay: 20, targetFinishDate: '2026-04-01', startsFromToday: true };
+
+const startPlan = async () => {
+  const { body } = await call('POST', '/plans', { name: 'Book club', memberName: 'Ana', reading });
+  return body as { plan: { code: string; ownerId: string }; membership: { code: string; memberId: string; token: string } };
+};
+
+describe('request bodies', () => {
+  it.each(['null', '[]', '42', '"plan"'])('rejects %s with a 400', async body => {
+    const response = await post('/plans', body);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'request body must be a JSON object' });
+  });
+
+  it('rejects malformed JSON with a 400', async () => {
+    expect((await post('/plans', '{')).status).toBe(400);
+  });
+
+  it('starts a plan from an object body', async () => {
+    const response = await post('/plans', JSON.stringify({
+      name: 'Book club',
+      memberName: 'Sam',
+      reading: { bookTitle: 'Dune', totalPages: 412, pagesPerDay: 20, targetFinishDate: '2026-04-01' },
+    }));
+
+    expect(response.status).toBe(201);
+    expect((await response.json()).plan).toMatchObject({ name: 'Book club', startDate: '2026-03-02' });
+  });
+});
+
+describe('group plans', () => {
+  it('starts a plan with the creator as owner and keeps tokens private', async () => {
+    const { plan, membership } = await startPlan();
+
+    expect(plan.code).toMatch(/^[A-Z0-9]{6}$/);
+    expect(plan.ownerId).toBe(membership.memberId);
+    expect(membership.token).toMatch(/^[0-9a-f]{32}$/);
+    const fetched = await call('GET', `/plans/${plan.code.toLowerCase()}`);
+    expect(fetched.status).toBe(200);
+    expect(fetched.body.plan.members).toEqual([expect.not.objectContaining({ token: expect.anything() })]);
+    expect(fetched.body.plan.reading).toMatchObject({ bookTitle: 'Dune', totalPages: 412, pagesRead: 0 });
+  });
+
+  it('lets others join by code', async () => {
+    const { plan } = await startPlan();
+    const joined = await call('POST', `/plans/${plan.code}/members`, { name: 'Ben' });
+
+    expect(joined.status).toBe(201);
+    expect(joined.body.membership.memberId).not.toBe(plan.ownerId);
+    expect(joined.body.plan.members.map((m: { name: string }) => m.name)).toEqual(['Ana', 'Ben']);
+    expect((await call('POST', '/plans/ZZZZZZ/members', { name: 'Cara' })).status).toBe(404);
+  });
+
+  it('records reported progress, capped at the book length', async () => {
+    const { plan, membership } = await startPlan();
+    const path = `/plans/${plan.code}/members/${membership.memberId}`;
+
+    expect((await call('PUT', path, { pagesRead: 57.4 }, membership.token)).body.plan.members[0].pagesRead).toBe(57);
+    expect((await call('PUT', path, { pagesRead: 9999 }, membership.token)).body.plan.members[0].pagesRead).toBe(412);
+    expect((await call('PUT', path, { pagesRead: -1 }, membership.token)).status).toBe(400);
+  });
+
+  it('rejects progress and plan changes without the right token', async () => {
+    const { plan, membership } = await startPlan();
+    const ben = (await call('POST', `/plans/${plan.code}/members`, { name: 'Ben' })).body.membership;
+    const anaPath = `/plans/${plan.code}/members/${membership.memberId}`;
+
+    expect((await call('PUT', anaPath, { pagesRead: 10 })).status).toBe(403);
+    expect((await call('PUT', anaPath, { pagesRead: 10 }, ben.token)).status).toBe(403);
+    expect((await call('PUT', `/plans/${plan.code}/members/nobody`, { pagesRead: 10 }, ben.token)).status).toBe(404);
+    expect((await call('PUT', `/plans/${plan.code}/reading`, { reading }, ben.token)).status).toBe(403);
+    expect((await call('DELETE', anaPath, undefined, ben.token)).status).toBe(403);
+  });
+
+  it('lets the owner change the shared reading', async () => {
+    const { plan, membership } = await startPlan();
+    const updated = await call('PUT', `/plans/${plan.code}/reading`, { reading: { ...reading, targetFinishDate: '2026-05-01' } }, membership.token);
+
+    expect(updated.status).toBe(200);
+    expect(updated.body.plan.reading.targetFinishDate).toBe('2026-05-01');
+  });
+
+  it('hands ownership on when the owner leaves and drops the plan with its last member', async () => {
+    const { plan, membership } = await startPlan();
+    const ben = (await call('POST', `/plans/${plan.code}/members`, { name: 'Ben' })).body.membership;
+
+    expect((await call('DELETE', `/plans/${plan.code}/members/${membership.memberId}`, undefined, membership.token)).status).toBe(204);
+    expect((await call('GET', `/plans/${plan.code}`)).body.plan.ownerId).toBe(ben.memberId);
+    await call('DELETE', `/plans/${plan.code}/members/${ben.memberId}`, undefined, ben.token);
+    expect((await call('GET', `/plans/${plan.code}`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,251 @@
+// BookBound sync server: stores group plans and each member's progress so a book club can share one schedule.
+// Run with `npm run sync-server`; PORT and BOOKBOUND_SYNC_FILE override the port and where plans are saved.
+// Only types are imported from the app, so Node can run this file directly with its type stripping.
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomBytes, randomInt, randomUUID } from 'node:crypto';
+import { readFile, writeFile } from 'node:fs/promises';
+import { pathToFileURL } from 'node:url';
+import type { GroupMember, GroupMembership, GroupPlan, ReadingData } from '../types';
+
+interface StoredMember extends GroupMember {
+  token: string;
+}
+
+interface StoredPlan extends Omit<GroupPlan, 'members'> {
+  members: StoredMember[];
+}
+
+interface SyncState {
+  plans: Record<string, StoredPlan>;
+}
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_MEMBERS = 50;
+// No 0/O or 1/I, so codes survive being read out loud
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const isDateKey = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const isNonNegativeNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const readName = (value: unknown, field: string) => {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `${field} is required`);
+  return value.trim().slice(0, 60);
+};
+
+const readReading = (value: unknown): ReadingData => {
+  const reading = value as Partial<ReadingData> | null;
+  if (!reading || typeof reading !== 'object') throw new HttpError(400, 'reading is required');
+  if (typeof reading.bookTitle !== 'string') throw new HttpError(400, 'reading.bookTitle must be a string');
+  if (!isNonNegativeNumber(reading.totalPages) || reading.totalPages <= 0) throw new HttpError(400, 'reading.totalPages must be a positive number');
+  if (!isNonNegativeNumber(reading.pagesPerDay)) throw new HttpError(400, 'reading.pagesPerDay must be a non-negative number');
+  if (!isDateKey(reading.targetFinishDate)) throw new HttpError(400, 'reading.targetFinishDate must be a yyyy-MM-dd date');
+  return {
+    bookTitle: reading.bookTitle.slice(0, 200),
+    totalPages: Math.round(reading.totalPages),
+    pagesRead: 0,
+    targetFinishDate: reading.targetFinishDate,
+    pagesPerDay: Math.round(reading.pagesPerDay),
+    startsFromToday: reading.startsFromToday !== false,
+  };
+};
+
+// Members' tokens never leave the server
+const toPublicPlan = ({ members, ...plan }: StoredPlan): GroupPlan => ({
+  ...plan,
+  members: members.map(({ token, ...member }) => member),
+});
+
+const readBody = async (request: IncomingMessage): Promise<any> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'request body is too large');
+    chunks.push(chunk);
+  }
+  if (chunks.length === 0) return {};
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch (e) {
+    throw new HttpError(400, 'request body is not valid JSON');
+  }
+  // Routes read fields straight off the body, so null, arrays and bare values are turned away here
+  if (!body || typeof body !== 'object' || Array.isArray(body)) throw new HttpError(400, 'request body must be a JSON object');
+  return body;
+};
+
+const send = (response: ServerResponse, status: number, body?: unknown) => {
+  response.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+interface SyncServerOptions {
+  // JSON file plans are loaded from and saved to; plans only live in memory without one
+  dataFile?: string;
+  today?: () => string;
+}
+
+export const createSyncServer = ({ dataFile, today = () => new Date().toISOString().slice(0, 10) }: SyncServerOptions = {}) => {
+  let state: SyncState = { plans: {} };
+  let loaded: Promise<void> | null = null;
+  let saving = Promise.resolve();
+
+  const load = () => {
+    loaded ??= (async () => {
+      if (!dataFile) return;
+      try {
+        const saved = JSON.parse(await readFile(dataFile, 'utf8'));
+        if (saved && typeof saved.plans === 'object') state = saved;
+      } catch (e: any) {
+        if (e?.code !== 'ENOENT') console.error("Failed to read sync data, starting empty:", e);
+      }
+    })();
+    return loaded;
+  };
+
+  // Writes are chained so an older snapshot never lands after a newer one
+  const persist = () => {
+    if (!dataFile) return saving;
+    const snapshot = JSON.stringify(state, null, 2);
+    saving = saving.then(() => writeFile(dataFile, snapshot)).catch(e => console.error("Failed to save sync data:", e));
+    return saving;
+  };
+
+  const newCode = () => {
+    let code = '';
+    do {
+      code = Array.from({ length: 6 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+    } while (state.plans[code]);
+    return code;
+  };
+
+  const addMember = (plan: StoredPlan, name: string): Omit<GroupMembership, 'serverUrl'> => {
+    if (plan.members.length >= MAX_MEMBERS) throw new HttpError(409, 'this plan is full');
+    const now = new Date().toISOString();
+    const member: StoredMember = { id: randomUUID(), name, pagesRead: 0, joinedAt: now, updatedAt: now, token: randomBytes(16).toString('hex') };
+    plan.members.push(member);
+    return { code: plan.code, memberId: member.id, token: member.token };
+  };
+
+  const getPlan = (code: string) => {
+    const plan = state.plans[code.toUpperCase()];
+    if (!plan) throw new HttpError(404, 'no plan with that code');
+    return plan;
+  };
+
+  const authorize = (request: IncomingMessage, plan: StoredPlan, memberId: string) => {
+    const member = plan.members.find(m => m.id === memberId);
+    if (!member) throw new HttpError(404, 'no member with that id');
+    if (request.headers.authorization !== `Bearer ${member.token}`) throw new HttpError(403, 'not allowed to change this member');
+    return member;
+  };
+
+  const route = async (request: IncomingMessage, response: ServerResponse) => {
+    const method = request.method ?? 'GET';
+    const parts = new URL(request.url ?? '/', 'http://localhost').pathname.split('/').filter(Boolean);
+    if (method === 'OPTIONS') return send(response, 204);
+    if (parts[0] !== 'plans') throw new HttpError(404, 'not found');
+    await load();
+
+    // POST /plans — start a plan; the creator joins as its first member and owner
+    if (parts.length === 1 && method === 'POST') {
+      const body = await readBody(request);
+      const memberName = readName(body.memberName, 'memberName');
+      const plan: StoredPlan = {
+        code: newCode(),
+        name: readName(body.name, 'name'),
+        reading: readReading(body.reading),
+        startDate: isDateKey(body.startDate) ? body.startDate : today(),
+        ownerId: '',
+        createdAt: new Date().toISOString(),
+        members: [],
+      };
+      const membership = addMember(plan, memberName);
+      plan.ownerId = membership.memberId;
+      state.plans[plan.code] = plan;
+      await persist();
+      return send(response, 201, { plan: toPublicPlan(plan), membership });
+    }
+
+    const plan = getPlan(parts[1] ?? '');
+
+    // GET /plans/:code
+    if (parts.length === 2 && method === 'GET') return send(response, 200, { plan: toPublicPlan(plan) });
+
+    // PUT /plans/:code/reading — the owner changes the shared book or deadline
+    if (parts.length === 3 && parts[2] === 'reading' && method === 'PUT') {
+      authorize(request, plan, plan.ownerId);
+      plan.reading = readReading((await readBody(request)).reading);
+      await persist();
+      return send(response, 200, { plan: toPublicPlan(plan) });
+    }
+
+    if (parts[2] !== 'members') throw new HttpError(404, 'not found');
+
+    // POST /plans/:code/members — join
+    if (parts.length === 3 && method === 'POST') {
+      const membership = addMember(plan, readName((await readBody(request)).name, 'name'));
+      await persist();
+      return send(response, 201, { plan: toPublicPlan(plan), membership });
+    }
+
+    if (parts.length !== 4) throw new HttpError(404, 'not found');
+    const member = authorize(request, plan, parts[3]);
+
+    // PUT /plans/:code/members/:id — report progress
+    if (method === 'PUT') {
+      const body = await readBody(request);
+      if (!isNonNegativeNumber(body.pagesRead)) throw new HttpError(400, 'pagesRead must be a non-negative number');
+      member.pagesRead = Math.min(plan.reading.totalPages, Math.round(body.pagesRead));
+      if (typeof body.name === 'string' && body.name.trim()) member.name = readName(body.name, 'name');
+      member.updatedAt = new Date().toISOString();
+      await persist();
+      return send(response, 200, { plan: toPublicPlan(plan) });
+    }
+
+    // DELETE /plans/:code/members/:id — leave; the plan goes once its last member has left
+    if (method === 'DELETE') {
+      plan.members = plan.members.filter(m => m.id !== member.id);
+      if (plan.members.length === 0) delete state.plans[plan.code];
+      else if (plan.ownerId === member.id) plan.ownerId = plan.members[0].id;
+      await persist();
+      return send(response, 204);
+    }
+
+    throw new HttpError(405, 'method not allowed');
+  };
+
+  return createServer((request, response) => {
+    route(request, response).catch(error => {
+      if (error instanceof HttpError) return send(response, error.status, { error: error.message });
+      console.error("Sync request failed:", error);
+      send(response, 500, { error: 'internal server error' });
+    });
+  });
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || 8787;
+  const dataFile = process.env.BOOKBOUND_SYNC_FILE || 'bookbound-sync.json';
+  createSyncServer({ dataFile }).listen(port, () => {
+    console.log(`BookBound sync server listening on http://localhost:${port} (saving to ${dataFile})`);
+  });
+}
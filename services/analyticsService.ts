@@ -0,0 +1,119 @@
+import { addDays, differenceInDays, isBefore, parseISO, startOfDay, subDays } from 'date-fns';
+import { Book, ChartPoint, ProgressChartData, ReadingPlan, ReadingStats } from '../types';
+import { pagesByDate, toDateKey } from './sessionService';
+
+// Pages logged per day across every book, keyed by yyyy-MM-dd
+export const buildDailyHistory = (books: Book[]) => {
+  const history: Record<string, number> = {};
+  books.forEach(book => {
+    Object.entries(pagesByDate(book.sessions)).forEach(([date, pages]) => {
+      history[date] = (history[date] ?? 0) + pages;
+    });
+  });
+  return history;
+};
+
+// Average pages per calendar day over the `days` days ending today, idle days included
+export const getRollingAverage = (history: Record<string, number>, today: Date, days: number) => {
+  let total = 0;
+  for (let i = 0; i < days; i++) {
+    total += history[toDateKey(subDays(today, i))] ?? 0;
+  }
+  return total / days;
+};
+
+// Longest run of consecutive reading days, and the one running up to today
+export const getStreaks = (history: Record<string, number>, today: Date) => {
+  const readingDays = Object.keys(history).filter(date => history[date] > 0).sort();
+
+  let longest = 0;
+  let run = 0;
+  let previous: Date | null = null;
+  readingDays.forEach(key => {
+    const date = parseISO(key);
+    run = previous && differenceInDays(date, previous) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  });
+
+  // A streak stays alive until the end of today, so start counting from yesterday if today is still empty
+  let current = 0;
+  let cursor = (history[toDateKey(today)] ?? 0) > 0 ? startOfDay(today) : subDays(startOfDay(today), 1);
+  while ((history[toDateKey(cursor)] ?? 0) > 0) {
+    current++;
+    cursor = subDays(cursor, 1);
+  }
+
+  return { current, longest };
+};
+
+// Ebook percentages, locations and audio minutes don't add up with pages, so only
+// page-based books count towards totals and averages
+export const getPageBooks = (books: Book[]) => books.filter(book => book.unit === 'pages');
+
+export const getReadingStats = (books: Book[], today: Date): ReadingStats => {
+  // Any logged session keeps a streak alive, whatever its unit
+  const { current, longest } = getStreaks(buildDailyHistory(books), today);
+  const history = buildDailyHistory(getPageBooks(books));
+
+  let bestDay: ReadingStats['bestDay'] = null;
+  Object.entries(history).forEach(([date, pages]) => {
+    if (!bestDay || pages > bestDay.pages) bestDay = { date, pages };
+  });
+
+  const values = Object.values(history);
+  return {
+    currentStreak: current,
+    longestStreak: longest,
+    sevenDayAverage: getRollingAverage(history, today, 7),
+    thirtyDayAverage: getRollingAverage(history, today, 30),
+    bestDay,
+    totalPages: values.reduce((sum, pages) => sum + pages, 0),
+    activeDays: values.filter(pages => pages > 0).length,
+  };
+};
+
+// Observed progress per day for one book, in its own unit: the last week if it has any reading, otherwise the last month
+export const getObservedVelocity = (book: Book, today: Date) => {
+  const history = pagesByDate(book.sessions);
+  const weekly = getRollingAverage(history, today, 7);
+  return weekly > 0 ? weekly : getRollingAverage(history, today, 30);
+};
+
+// Finish date if reading continues at the observed velocity, or null without any recent reading
+export const projectFinishFromVelocity = (pagesLeft: number, velocity: number, today: Date): string | null => {
+  if (pagesLeft <= 0 || velocity <= 0) return null;
+  return toDateKey(addDays(startOfDay(today), Math.ceil(pagesLeft / velocity) - 1));
+};
+
+// Planned versus actual cumulative progress since the plan started. Actual positions are worked back
+// from the current one through the session log, so a manually corrected position still lines up today.
+export const buildProgressChart = (book: Book, plan: ReadingPlan, today: Date): ProgressChartData => {
+  const todayStart = startOfDay(today);
+  const planStart = parseISO(book.planStartDate);
+  const origin = subDays(planStart, 1);
+  const logged = pagesByDate(book.sessions);
+
+  const actual: ChartPoint[] = [];
+  let pages = book.pagesRead;
+  for (let date = todayStart; !isBefore(date, origin); date = subDays(date, 1)) {
+    actual.unshift({ date: toDateKey(date), pages: Math.max(0, pages) });
+    pages -= logged[toDateKey(date)] ?? 0;
+  }
+
+  const velocity = getObservedVelocity(book, today);
+  const finish = projectFinishFromVelocity(book.totalPages - book.pagesRead, velocity, addDays(todayStart, 1));
+
+  return {
+    originDate: toDateKey(origin),
+    totalPages: book.totalPages,
+    deadline: book.targetFinishDate,
+    today: toDateKey(todayStart),
+    planned: [
+      { date: toDateKey(origin), pages: book.planStartPage },
+      ...plan.items.map(item => ({ date: item.date, pages: item.cumulativePagesRead })),
+    ],
+    actual,
+    projection: finish ? [{ date: toDateKey(todayStart), pages: book.pagesRead }, { date: finish, pages: book.totalPages }] : [],
+  };
+};
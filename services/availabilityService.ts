@@ -0,0 +1,53 @@
+import { addDays, differenceInDays, format, getDay, isValid, startOfDay } from 'date-fns';
+import { ReadingAvailability } from '../types';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const WEIGHT_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'Off' },
+  { value: 0.5, label: '½×' },
+  { value: 1, label: '1×' },
+  { value: 1.5, label: '1.5×' },
+  { value: 2, label: '2×' },
+];
+
+export const createDefaultAvailability = (): ReadingAvailability => ({
+  weekdayWeights: [1, 1, 1, 1, 1, 1, 1],
+  blackouts: [],
+});
+
+export const normalizeAvailability = (availability?: Partial<ReadingAvailability>): ReadingAvailability => {
+  const weights = availability?.weekdayWeights;
+  return {
+    weekdayWeights: Array.isArray(weights) && weights.length === 7
+      ? weights.map(weight => (typeof weight === 'number' && weight >= 0 ? weight : 1))
+      : createDefaultAvailability().weekdayWeights,
+    blackouts: Array.isArray(availability?.blackouts) ? availability.blackouts : [],
+  };
+};
+
+export const isBlackedOut = (date: Date, availability: ReadingAvailability) => {
+  const key = format(date, 'yyyy-MM-dd');
+  return availability.blackouts.some(range => range.start <= key && key <= (range.end || range.start));
+};
+
+// Share of a normal day's pages this date can take: 0 on rest days and inside blackouts
+export const getDayWeight = (date: Date, availability: ReadingAvailability) =>
+  isBlackedOut(date, availability) ? 0 : availability.weekdayWeights[getDay(date)] ?? 1;
+
+export const getDayCapacity = (date: Date, pace: number, availability: ReadingAvailability) =>
+  Math.ceil(pace * getDayWeight(date, availability));
+
+// Sum of day weights from `from` to `to`, both inclusive
+export const sumWeightsBetween = (from: Date, to: Date, availability: ReadingAvailability) => {
+  if (!isValid(from) || !isValid(to)) return 0;
+  const days = differenceInDays(startOfDay(to), startOfDay(from)) + 1;
+  let total = 0;
+  for (let i = 0; i < days; i++) {
+    total += getDayWeight(addDays(from, i), availability);
+  }
+  return total;
+};
+
+export const hasReadingDays = (availability: ReadingAvailability) =>
+  availability.weekdayWeights.some(weight => weight > 0);
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { Library, ScheduleItem } from '../types';
+import { BackupValidationError, applyBackup, createBackup, parseBackup, scheduleToCsv, validateLibrary } from './backupService';
+import { createBook, createEmptyLibrary } from './libraryService';
+
+const makeLibrary = (overrides: Partial<Library> = {}): Library => ({ ...createEmptyLibrary(), ...overrides });
+
+const challenge = (id: string, target: number) =>
+  ({ id, title: id, metric: 'books' as const, target, startDate: '2026-01-01', endDate: '2026-12-31' });
+
+const blackout = (id: string, start: string, end = start) => ({ id, start, end, label: id });
+
+const toBackupText = (library: unknown) => JSON.stringify({ ...createBackup(makeLibrary(), 'light'), library });
+
+const getIssues = (library: unknown) => {
+  try {
+    parseBackup(toBackupText(library));
+  } catch (e) {
+    if (e instanceof BackupValidationError) return e.issues;
+    throw e;
+  }
+  return [];
+};
+
+describe('validateLibrary', () => {
+  it('accepts a library the app saved', () => {
+    const library = makeLibrary({ availability: { weekdayWeights: [0, 1, 1, 1, 1, 1, 2], blackouts: [blackout('trip', '2026-03-01', '2026-03-04')] } });
+    library.books[0] = { ...library.books[0], chapters: [{ id: 'c1', title: 'Prologue', startPage: 0 }] };
+
+    expect(validateLibrary(JSON.parse(JSON.stringify(library)))).toEqual([]);
+  });
+
+  it('rejects a library without books and duplicate ids', () => {
+    expect(validateLibrary({ books: [] })).toEqual(['library.books must be a non-empty array']);
+    expect(validateLibrary({ books: [createBook({ id: 'a' }), createBook({ id: 'a' })] })).toEqual(['library.books contains duplicate ids']);
+  });
+
+  it('checks the chapters of each book', () => {
+    const book = createBook({ chapters: [{ id: 'c1', title: 'One', startPage: 0 }, { id: 'c2', title: 'Two', startPage: -5 }, { title: 'Three' } as never] });
+
+    expect(validateLibrary({ books: [book] })).toEqual([
+      'library.books[0].chapters[1] needs an id, a title and a start page',
+      'library.books[0].chapters[2] needs an id, a title and a start page',
+    ]);
+    expect(validateLibrary({ books: [{ ...book, chapters: 'none' }] })).toEqual(['library.books[0].chapters must be an array']);
+  });
+
+  it('checks the weekday weights and blackouts', () => {
+    const books = [createBook()];
+
+    expect(validateLibrary({ books, availability: { weekdayWeights: [1, 1, 1], blackouts: [] } })).toEqual([
+      'library.availability.weekdayWeights must be 7 non-negative numbers, Sunday first',
+    ]);
+    expect(validateLibrary({ books, availability: { weekdayWeights: [1, 1, 1, -1, 1, 1, 1] } })).toHaveLength(1);
+    expect(validateLibrary({
+      books,
+      availability: { blackouts: [blackout('ok', '2026-03-01'), blackout('backwards', '2026-03-05', '2026-03-01'), { id: 'x', start: 'soon' }] },
+    })).toEqual([
+      'library.availability.blackouts[1] needs an id and yyyy-MM-dd start and end dates, the end not before the start',
+      'library.availability.blackouts[2] needs an id and yyyy-MM-dd start and end dates, the end not before the start',
+    ]);
+    expect(validateLibrary({ books, availability: [] })).toEqual(['library.availability must be an object']);
+  });
+});
+
+describe('parseBackup', () => {
+  it('lists every problem in the backup', () => {
+    const issues = getIssues({ books: [{ ...createBook(), totalPages: 'many' }], availability: { blackouts: 'none' } });
+
+    expect(issues).toEqual(['library.books[0].totalPages must be a non-negative number', 'library.availability.blackouts must be an array']);
+  });
+
+  it('rejects files that are not BookBound backups', () => {
+    expect(() => parseBackup('nope')).toThrow('file is not valid JSON');
+    expect(() => parseBackup(JSON.stringify({ format: 'other' }))).toThrow('file is not a BookBound backup');
+    expect(() => parseBackup(JSON.stringify({ format: 'bookbound-backup', version: 99 }))).toThrow('backup version 99 is not supported');
+  });
+
+  it('fills in defaults for fields older backups lack', () => {
+    const backup = parseBackup(toBackupText({ books: [{ id: 'old', bookTitle: 'Old', totalPages: 100, pagesRead: 0, pagesPerDay: 10, startsFromToday: true }] }));
+
+    expect(backup.library.queue).toEqual({ bookIds: [], lanes: 1, dailyBudget: 0 });
+    expect(backup.library.availability.blackouts).toEqual([]);
+    expect(backup.library.books[0]).toMatchObject({ unit: 'pages', chapters: [], sessions: [] });
+  });
+});
+
+describe('applyBackup', () => {
+  const local = makeLibrary({
+    books: [createBook({ id: 'a', bookTitle: 'Local A' }), createBook({ id: 'b', bookTitle: 'Local B' })],
+    activeBookId: 'b',
+    availability: { weekdayWeights: [0, 1, 1, 1, 1, 1, 0], blackouts: [blackout('trip', '2026-03-01'), blackout('move', '2026-04-01')] },
+    challenges: [challenge('year', 20)],
+    queue: { bookIds: ['b', 'a'], lanes: 2, dailyBudget: 40 },
+  });
+  const imported = createBackup(makeLibrary({
+    books: [createBook({ id: 'b', bookTitle: 'Imported B' }), createBook({ id: 'c', bookTitle: 'Imported C' }), createBook({ id: 'd', bookTitle: 'Imported D' })],
+    activeBookId: 'c',
+    availability: { weekdayWeights: [2, 2, 2, 2, 2, 2, 2], blackouts: [blackout('trip', '2026-03-01', '2026-03-03'), blackout('exams', '2026-05-01')] },
+    challenges: [challenge('year', 30), challenge('summer', 5)],
+    queue: { bookIds: ['d', 'b', 'c', 'gone'], lanes: 1, dailyBudget: 0 },
+  }), 'dark');
+
+  it('swaps in the backup wholesale when replacing', () => {
+    expect(applyBackup(local, imported, 'replace')).toBe(imported.library);
+  });
+
+  it('merges books and challenges by id, imported ones winning', () => {
+    const merged = applyBackup(local, imported, 'merge');
+
+    expect(merged.books.map(book => book.bookTitle)).toEqual(['Local A', 'Imported B', 'Imported C', 'Imported D']);
+    expect(merged.challenges.map(c => [c.id, c.target])).toEqual([['year', 30], ['summer', 5]]);
+    expect(merged.activeBookId).toBe('b');
+  });
+
+  it('adds imported blackouts and keeps the local weekday weights', () => {
+    const merged = applyBackup(local, imported, 'merge');
+
+    expect(merged.availability.weekdayWeights).toEqual([0, 1, 1, 1, 1, 1, 0]);
+    expect(merged.availability.blackouts.map(range => [range.id, range.end])).toEqual([
+      ['move', '2026-04-01'],
+      ['trip', '2026-03-03'],
+      ['exams', '2026-05-01'],
+    ]);
+  });
+
+  it('queues imported books after the local order and keeps the local queue settings', () => {
+    const merged = applyBackup(local, imported, 'merge');
+
+    expect(merged.queue).toEqual({ bookIds: ['b', 'a', 'd', 'c'], lanes: 2, dailyBudget: 40 });
+  });
+});
+
+describe('scheduleToCsv', () => {
+  it('writes one row per day under the documented columns', () => {
+    const items: ScheduleItem[] = [
+      { date: '2026-03-02', pagesToReadToday: 25, startPage: 0, endPage: 25, cumulativePagesRead: 25, percentComplete: 25, pagesLogged: 0, status: 'pending' },
+      { date: '2026-03-03', pagesToReadToday: 25, startPage: 25, endPage: 50, cumulativePagesRead: 50, percentComplete: 50, pagesLogged: 10, status: 'partial' },
+    ];
+
+    expect(scheduleToCsv(items)).toBe(
+      'date,target,start_page,end_page,cumulative,percent\n' +
+      '2026-03-02,25,0,25,25,25\n' +
+      '2026-03-03,25,25,50,50,50\n'
+    );
+  });
+
+  it('writes just the header for an empty schedule', () => {
+    expect(scheduleToCsv([])).toBe('date,target,start_page,end_page,cumulative,percent\n');
+  });
+});
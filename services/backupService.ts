@@ -0,0 +1,197 @@
+import { Book, BookBoundBackup, ImportMode, Library, ScheduleItem } from '../types';
+import { BOOK_STATUSES, normalizeLibrary } from './libraryService';
+import { isReadingUnit } from './unitService';
+
+export const BACKUP_FORMAT = 'bookbound-backup';
+export const BACKUP_VERSION = 1;
+
+export class BackupValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid BookBound backup: ${issues.join('; ')}`);
+    this.name = 'BackupValidationError';
+    this.issues = issues;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonNegativeNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isDateKey = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const validateBook = (book: unknown, index: number): string[] => {
+  const path = `library.books[${index}]`;
+  if (!isRecord(book)) return [`${path} must be an object`];
+
+  const issues: string[] = [];
+  if (typeof book.id !== 'string' || !book.id) issues.push(`${path}.id must be a non-empty string`);
+  if (typeof book.bookTitle !== 'string') issues.push(`${path}.bookTitle must be a string`);
+  (['totalPages', 'pagesRead', 'pagesPerDay'] as const).forEach(field => {
+    if (!isNonNegativeNumber(book[field])) issues.push(`${path}.${field} must be a non-negative number`);
+  });
+  // A blank or malformed deadline is replaced when the book is normalized rather than rejecting the library
+  if (book.targetFinishDate !== undefined && typeof book.targetFinishDate !== 'string') {
+    issues.push(`${path}.targetFinishDate must be a yyyy-MM-dd date`);
+  }
+  if (typeof book.startsFromToday !== 'boolean') issues.push(`${path}.startsFromToday must be a boolean`);
+  if (book.status !== undefined && !BOOK_STATUSES.some(status => status.value === book.status)) {
+    issues.push(`${path}.status is not a known status`);
+  }
+  if (book.unit !== undefined && !isReadingUnit(book.unit)) issues.push(`${path}.unit is not a known unit`);
+  if (book.minutesPerDay !== undefined && !isNonNegativeNumber(book.minutesPerDay)) {
+    issues.push(`${path}.minutesPerDay must be a non-negative number`);
+  }
+  if (book.sessions !== undefined) {
+    if (!Array.isArray(book.sessions)) {
+      issues.push(`${path}.sessions must be an array`);
+    } else {
+      book.sessions.forEach((session, sessionIndex) => {
+        if (!isRecord(session) || !isDateKey(session.date) || !isNonNegativeNumber(session.pagesRead)) {
+          issues.push(`${path}.sessions[${sessionIndex}] needs a yyyy-MM-dd date and a page count`);
+        }
+      });
+    }
+  }
+  if (book.chapters !== undefined) {
+    if (!Array.isArray(book.chapters)) {
+      issues.push(`${path}.chapters must be an array`);
+    } else {
+      book.chapters.forEach((chapter, chapterIndex) => {
+        if (!isRecord(chapter) || typeof chapter.id !== 'string' || typeof chapter.title !== 'string' || !isNonNegativeNumber(chapter.startPage)) {
+          issues.push(`${path}.chapters[${chapterIndex}] needs an id, a title and a start page`);
+        }
+      });
+    }
+  }
+  if (book.notes !== undefined) {
+    if (!Array.isArray(book.notes)) {
+      issues.push(`${path}.notes must be an array`);
+    } else {
+      book.notes.forEach((note, noteIndex) => {
+        if (!isRecord(note) || typeof note.text !== 'string' || !isDateKey(note.date) || !isNonNegativeNumber(note.startPage)) {
+          issues.push(`${path}.notes[${noteIndex}] needs text, a yyyy-MM-dd date and a page`);
+        }
+      });
+    }
+  }
+  return issues;
+};
+
+const validateAvailability = (availability: unknown): string[] => {
+  const path = 'library.availability';
+  if (!isRecord(availability)) return [`${path} must be an object`];
+
+  const issues: string[] = [];
+  const weights = availability.weekdayWeights;
+  if (weights !== undefined && (!Array.isArray(weights) || weights.length !== 7 || !weights.every(isNonNegativeNumber))) {
+    issues.push(`${path}.weekdayWeights must be 7 non-negative numbers, Sunday first`);
+  }
+  if (availability.blackouts !== undefined) {
+    if (!Array.isArray(availability.blackouts)) {
+      issues.push(`${path}.blackouts must be an array`);
+    } else {
+      availability.blackouts.forEach((range, rangeIndex) => {
+        if (!isRecord(range) || typeof range.id !== 'string' || !isDateKey(range.start) || !isDateKey(range.end) || range.end < range.start) {
+          issues.push(`${path}.blackouts[${rangeIndex}] needs an id and yyyy-MM-dd start and end dates, the end not before the start`);
+        }
+      });
+    }
+  }
+  return issues;
+};
+
+// Lists every problem with a library record; used for backups and for data saved in the browser
+export const validateLibrary = (library: unknown): string[] => {
+  if (!isRecord(library) || !Array.isArray(library.books) || library.books.length === 0) {
+    return ['library.books must be a non-empty array'];
+  }
+
+  const issues = library.books.flatMap(validateBook);
+  if (library.availability !== undefined) issues.push(...validateAvailability(library.availability));
+  const ids = library.books.map(book => (isRecord(book) ? book.id : undefined));
+  if (new Set(ids).size !== ids.length) issues.push('library.books contains duplicate ids');
+  return issues;
+};
+
+export const createBackup = (library: Library, theme: 'light' | 'dark'): BookBoundBackup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  theme,
+  library,
+});
+
+// Parses and validates a backup file; throws BackupValidationError listing every problem found
+export const parseBackup = (text: string): BookBoundBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new BackupValidationError(['file is not valid JSON']);
+  }
+
+  if (!isRecord(raw)) throw new BackupValidationError(['backup must be a JSON object']);
+  if (raw.format !== BACKUP_FORMAT) throw new BackupValidationError(['file is not a BookBound backup']);
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    throw new BackupValidationError([`backup version ${String(raw.version)} is not supported (expected ${BACKUP_VERSION} or lower)`]);
+  }
+
+  const issues = validateLibrary(raw.library);
+  if (issues.length > 0) throw new BackupValidationError(issues);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : new Date().toISOString(),
+    theme: raw.theme === 'dark' ? 'dark' : 'light',
+    library: normalizeLibrary(raw.library as Library),
+  };
+};
+
+// Replace swaps in the backup wholesale. Merge keeps local books, challenges and blackouts, letting
+// imported ones overwrite those with the same id; the local weekday weights and queue settings stay,
+// and imported books the local queue doesn't list join the end of it in their backup order.
+export const applyBackup = (current: Library, backup: BookBoundBackup, mode: ImportMode): Library => {
+  if (mode === 'replace') return backup.library;
+
+  const mergeById = <T extends { id: string }>(local: T[], imported: T[]) => {
+    const importedIds = new Set(imported.map(entry => entry.id));
+    return [...local.filter(entry => !importedIds.has(entry.id)), ...imported];
+  };
+
+  const books = mergeById(current.books, backup.library.books);
+  const bookIds = new Set(books.map(book => book.id));
+  const queued = [...new Set([...current.queue.bookIds, ...backup.library.queue.bookIds])];
+  return {
+    ...current,
+    books,
+    challenges: mergeById(current.challenges, backup.library.challenges),
+    availability: {
+      ...current.availability,
+      blackouts: mergeById(current.availability.blackouts, backup.library.availability.blackouts),
+    },
+    queue: { ...current.queue, bookIds: queued.filter(id => bookIds.has(id)) },
+    activeBookId: books.some(book => book.id === current.activeBookId) ? current.activeBookId : books[0]?.id ?? null,
+  };
+};
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const scheduleToCsv = (items: ScheduleItem[]) => {
+  const header = ['date', 'target', 'start_page', 'end_page', 'cumulative', 'percent'];
+  const rows = items.map(item => [
+    item.date,
+    item.pagesToReadToday,
+    item.startPage,
+    item.endPage,
+    item.cumulativePagesRead,
+    item.percentComplete,
+  ]);
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+};
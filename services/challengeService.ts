@@ -0,0 +1,118 @@
+import {
+  differenceInDays,
+  endOfQuarter,
+  endOfYear,
+  isValid,
+  parseISO,
+  startOfDay,
+  startOfQuarter,
+  startOfYear,
+} from 'date-fns';
+import { Book, ChallengeMetric, ChallengeProgress, ReadingChallenge } from '../types';
+import { generateId } from './libraryService';
+import { toDateKey } from './sessionService';
+import { getPageBooks } from './analyticsService';
+
+// Length assumed for upcoming books when the library has no finished page-based book to go by
+const DEFAULT_BOOK_LENGTH = 300;
+
+export const CHALLENGE_PRESETS: { label: string; metric: ChallengeMetric; target: number; period: 'year' | 'quarter' }[] = [
+  { label: 'Books this year', metric: 'books', target: 24, period: 'year' },
+  { label: 'Pages this quarter', metric: 'pages', target: 10000, period: 'quarter' },
+];
+
+export const createChallenge = (
+  preset: (typeof CHALLENGE_PRESETS)[number],
+  today: Date
+): ReadingChallenge => {
+  const yearly = preset.period === 'year';
+  const start = yearly ? startOfYear(today) : startOfQuarter(today);
+  const end = yearly ? endOfYear(today) : endOfQuarter(today);
+  const period = yearly ? String(today.getFullYear()) : `Q${Math.floor(today.getMonth() / 3) + 1} ${today.getFullYear()}`;
+  return {
+    id: generateId(),
+    title: `${preset.target.toLocaleString()} ${preset.metric} in ${period}`,
+    metric: preset.metric,
+    target: preset.target,
+    startDate: toDateKey(start),
+    endDate: toDateKey(end),
+  };
+};
+
+const inPeriod = (challenge: ReadingChallenge, date: string) =>
+  date >= challenge.startDate && date <= challenge.endDate;
+
+// Finish day for a finished book; older books without a stamp fall back to their last session
+export const getFinishDate = (book: Book): string | null => {
+  if (book.status !== 'finished') return null;
+  if (book.finishedAt) return book.finishedAt;
+  const dates = book.sessions.map(session => session.date).sort();
+  return dates.length > 0 ? dates[dates.length - 1] : null;
+};
+
+// Finished books count whatever their unit; pages only come from page-based books
+export const getChallengeAchieved = (challenge: ReadingChallenge, books: Book[]) => {
+  if (challenge.metric === 'books') {
+    return books.filter(book => {
+      const finished = getFinishDate(book);
+      return finished !== null && inPeriod(challenge, finished);
+    }).length;
+  }
+  return getPageBooks(books).reduce(
+    (sum, book) => sum + book.sessions.filter(session => inPeriod(challenge, session.date)).reduce((total, session) => total + session.pagesRead, 0),
+    0
+  );
+};
+
+export const getAverageBookLength = (books: Book[]) => {
+  const lengths = getPageBooks(books).filter(book => book.status === 'finished' && book.totalPages > 0).map(book => book.totalPages);
+  return lengths.length > 0 ? Math.round(lengths.reduce((sum, pages) => sum + pages, 0) / lengths.length) : DEFAULT_BOOK_LENGTH;
+};
+
+export const getChallengeProgress = (challenge: ReadingChallenge, books: Book[], today: Date): ChallengeProgress => {
+  const start = parseISO(challenge.startDate);
+  const end = parseISO(challenge.endDate);
+  const todayStart = startOfDay(today);
+  const achieved = getChallengeAchieved(challenge, books);
+  const remaining = Math.max(0, challenge.target - achieved);
+
+  const totalDays = isValid(start) && isValid(end) ? differenceInDays(end, start) + 1 : 0;
+  // Today still counts as a day left, and as a day elapsed once something has been read
+  const elapsedDays = Math.min(totalDays, Math.max(0, differenceInDays(todayStart, start) + 1));
+  const daysLeft = Math.min(totalDays, Math.max(0, differenceInDays(end, todayStart) + 1));
+
+  const expected = totalDays > 0 ? (challenge.target * elapsedDays) / totalDays : 0;
+  const projected = elapsedDays > 0 ? (achieved / elapsedDays) * totalDays : 0;
+  const requiredPerDay = daysLeft > 0 ? remaining / daysLeft : 0;
+  const pagesPerUnit = challenge.metric === 'books' ? getAverageBookLength(books) : 1;
+
+  let status: ChallengeProgress['status'];
+  if (achieved >= challenge.target) status = 'completed';
+  else if (daysLeft === 0) status = 'missed';
+  else if (elapsedDays === 0) status = 'upcoming';
+  else status = achieved >= expected ? 'ahead' : 'behind';
+
+  return {
+    achieved,
+    expected,
+    projected,
+    daysLeft,
+    requiredPerDay,
+    requiredPagesPerDay: Math.ceil(requiredPerDay * pagesPerUnit),
+    status,
+  };
+};
+
+// Daily pages the most demanding running challenge asks for, or null when none needs any more reading
+export const getChallengePagesPerDay = (challenges: ReadingChallenge[], books: Book[], today: Date): number | null => {
+  const paces = challenges
+    .map(challenge => getChallengeProgress(challenge, books, today))
+    .filter(progress => progress.status === 'ahead' || progress.status === 'behind')
+    .map(progress => progress.requiredPagesPerDay)
+    .filter(pages => pages > 0);
+  return paces.length > 0 ? Math.max(...paces) : null;
+};
+
+// The next book to start: the oldest queued one
+export const getNextQueuedBook = (books: Book[]) =>
+  [...books].filter(book => book.status === 'queued').sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0] ?? null;
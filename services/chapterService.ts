@@ -0,0 +1,95 @@
+import { Chapter } from '../types';
+import { generateId } from './libraryService';
+import { DailyLoad } from './rebalanceService';
+
+// Chapters ordered by start page, keeping only the first entry for any page
+export const sortChapters = (chapters: Chapter[]) =>
+  [...chapters]
+    .filter(chapter => chapter.startPage > 0)
+    .sort((a, b) => a.startPage - b.startPage)
+    .filter((chapter, index, sorted) => index === 0 || chapter.startPage !== sorted[index - 1].startPage);
+
+// Parses a pasted table of contents, one chapter per line with its start page last,
+// e.g. "Chapter 1: Loomings ..... 1", "2. The Carpet-Bag  9" or "The Counterpane\t17"
+export const parseTableOfContents = (text: string): Chapter[] => {
+  const chapters: Chapter[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const match = line.trim().match(/^(.*?)[\s.\-–—:|]*(\d+)\s*$/);
+    if (!match) return;
+    const title = match[1].trim();
+    const startPage = parseInt(match[2], 10);
+    if (!title || startPage <= 0) return;
+    chapters.push({ id: generateId(), title, startPage });
+  });
+  return sortChapters(chapters);
+};
+
+// Last page of every chapter except the final one; reading up to one of these finishes a chapter
+const getChapterBreaks = (chapters: Chapter[], totalPages: number) =>
+  sortChapters(chapters)
+    .slice(1)
+    .map(chapter => chapter.startPage - 1)
+    .filter(page => page > 0 && page < totalPages);
+
+// Moves each day's planned end page to the nearest chapter break within the tolerance.
+// Ends are snapped against the cumulative plan rather than the previous snapped day, so
+// shifts never accumulate and the last day still lands on the final page.
+export const snapLoadsToChapters = (
+  loads: DailyLoad[],
+  pagesBefore: number,
+  totalPages: number,
+  chapters: Chapter[],
+  tolerancePercent: number
+): DailyLoad[] => {
+  const breaks = getChapterBreaks(chapters, totalPages);
+  if (breaks.length === 0 || loads.length === 0) return loads;
+
+  const snapped: DailyLoad[] = [];
+  let plannedEnd = pagesBefore;
+  let previousEnd = pagesBefore;
+
+  loads.forEach((load, index) => {
+    plannedEnd += load.pages;
+    let end = plannedEnd;
+
+    if (index < loads.length - 1) {
+      const tolerance = Math.max(1, Math.round((load.pages * tolerancePercent) / 100));
+      let bestDistance = Infinity;
+      breaks.forEach(page => {
+        const distance = Math.abs(page - plannedEnd);
+        if (page > previousEnd && distance <= tolerance && distance < bestDistance) {
+          bestDistance = distance;
+          end = page;
+        }
+      });
+    }
+
+    // A neighbouring day may already have snapped past this day's planned end
+    end = Math.max(end, previousEnd);
+    snapped.push({ date: load.date, pages: end - previousEnd });
+    previousEnd = end;
+  });
+
+  return snapped.filter(load => load.pages > 0);
+};
+
+// Short label for the chapters a page range touches, e.g. "Ch. 4" or "Ch. 4–5"
+export const getChapterLabel = (chapters: Chapter[], startPage: number, endPage: number) => {
+  const sorted = sortChapters(chapters);
+  if (sorted.length === 0) return undefined;
+
+  const indexAt = (page: number) => {
+    let found = -1;
+    sorted.forEach((chapter, index) => {
+      if (chapter.startPage <= page) found = index;
+    });
+    return found;
+  };
+
+  const first = indexAt(startPage);
+  const last = indexAt(endPage);
+  if (last === -1) return undefined;
+  const from = Math.max(0, first) + 1;
+  const to = last + 1;
+  return from === to ? `Ch. ${from}` : `Ch. ${from}–${to}`;
+};
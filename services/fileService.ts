@@ -0,0 +1,18 @@
+// Triggers a browser download for generated text content
+export const downloadFile = (filename: string, content: string, mimeType: string) =>
+  downloadBlob(filename, new Blob([content], { type: mimeType }));
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Lowercase, dash-separated file name stem, e.g. "The Great Gatsby" -> "the-great-gatsby"
+export const toFileSlug = (value: string, fallback = 'bookbound') =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || fallback;
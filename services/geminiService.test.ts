@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CoachAdvice, CoachContext } from '../types';
+import { CoachCache, GenerativeClient, createReadingCoach, getOfflineAdvice, parseCoachResponse } from './geminiService';
+
+const context: CoachContext = {
+  bookId: 'book',
+  title: 'Dune',
+  totalPages: 400,
+  pagesLeft: 300,
+  pagesPerDay: 10,
+  observedPagesPerDay: 9.5,
+  daysToDeadline: 20,
+  pageDelta: -20,
+  daysPastDeadline: 10,
+  currentStreak: 2,
+  unit: 'pages',
+  targetFinishDate: '2026-03-21',
+  status: 'reading',
+};
+
+const createMemoryCache = (): CoachCache => {
+  const entries = new Map<string, CoachAdvice>();
+  return { get: key => entries.get(key) ?? null, set: (key, advice) => entries.set(key, advice) };
+};
+
+// Answers every request with the next response in the list
+const createFakeClient = (...responses: unknown[]) => {
+  const generateContent = vi.fn(async () => ({ text: JSON.stringify(responses[Math.min(generateContent.mock.calls.length - 1, responses.length - 1)]) }));
+  return { client: { models: { generateContent } } as GenerativeClient, generateContent };
+};
+
+const advice = (suggestedPagesPerDay: number) =>
+  ({ suggestedPagesPerDay, paceAdjustment: 'increase', message: `Read ${suggestedPagesPerDay} a day.`, riskLevel: 'medium' });
+
+const clock = () => new Date(2026, 2, 2, 9);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('coach cache', () => {
+  it('answers the same plan on the same day from the cache', async () => {
+    const { client, generateContent } = createFakeClient(advice(15));
+    const coach = createReadingCoach({ client, cache: createMemoryCache(), clock });
+
+    await coach.getAdvice(context);
+    const second = await coach.getAdvice(context);
+
+    expect(second.suggestedPagesPerDay).toBe(15);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ['pace', { pagesPerDay: 12 }],
+    ['progress', { pagesLeft: 280 }],
+    ['deadline', { targetFinishDate: '2026-04-01', daysToDeadline: 31 }],
+    ['status', { status: 'paused' as const }],
+  ])('asks again after a %s change', async (_, change) => {
+    const { client, generateContent } = createFakeClient(advice(15), advice(11));
+    const coach = createReadingCoach({ client, cache: createMemoryCache(), clock });
+
+    await coach.getAdvice(context);
+    const edited = await coach.getAdvice({ ...context, ...change });
+
+    expect(edited.suggestedPagesPerDay).toBe(11);
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('parseCoachResponse', () => {
+  it('accepts a response matching the schema', () => {
+    expect(parseCoachResponse(JSON.stringify({ ...advice(15), message: '  Read 15 a day.  ' }))).toEqual({
+      suggestedPagesPerDay: 15,
+      paceAdjustment: 'increase',
+      message: 'Read 15 a day.',
+      riskLevel: 'medium',
+      source: 'gemini',
+    });
+  });
+
+  it.each([
+    ['no text', undefined],
+    ['text that is not JSON', 'Read more!'],
+    ['a JSON array', '[]'],
+    ['a missing field', JSON.stringify({ suggestedPagesPerDay: 15, paceAdjustment: 'keep', message: 'Hi' })],
+    ['a fractional pace', JSON.stringify({ ...advice(15), suggestedPagesPerDay: 12.5 })],
+    ['a zero pace', JSON.stringify({ ...advice(15), suggestedPagesPerDay: 0 })],
+    ['an unknown adjustment', JSON.stringify({ ...advice(15), paceAdjustment: 'double' })],
+    ['an unknown risk level', JSON.stringify({ ...advice(15), riskLevel: 'extreme' })],
+    ['a blank message', JSON.stringify({ ...advice(15), message: '  ' })],
+  ])('rejects %s', (_, text) => {
+    expect(parseCoachResponse(text)).toBeNull();
+  });
+});
+
+describe('getAdvice with a fake client', () => {
+  it('asks for JSON matching the coach schema and returns the parsed advice', async () => {
+    const { client, generateContent } = createFakeClient(advice(15));
+    const result = await createReadingCoach({ client, cache: createMemoryCache(), clock }).getAdvice(context);
+
+    expect(result).toMatchObject({ suggestedPagesPerDay: 15, source: 'gemini' });
+    const [request] = generateContent.mock.calls[0] as unknown as [{ contents: string; config: Record<string, any> }];
+    expect(request.config.responseMimeType).toBe('application/json');
+    expect(request.config.responseSchema.required).toEqual(['suggestedPagesPerDay', 'paceAdjustment', 'message', 'riskLevel']);
+    expect(request.contents).toContain('"pagesLeft":300');
+  });
+
+  it('falls back to offline advice for a malformed response and does not cache it', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { client, generateContent } = createFakeClient({ suggestedPagesPerDay: 'lots' }, advice(15));
+    const coach = createReadingCoach({ client, cache: createMemoryCache(), clock });
+
+    expect(await coach.getAdvice(context)).toEqual(getOfflineAdvice(context));
+    expect((await coach.getAdvice(context)).source).toBe('gemini');
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to offline advice when the request fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const client: GenerativeClient = { models: { generateContent: async () => { throw new Error('offline'); } } };
+
+    expect(await createReadingCoach({ client, cache: createMemoryCache(), clock }).getAdvice(context)).toEqual(getOfflineAdvice(context));
+  });
+
+  it('uses offline advice without a client', async () => {
+    const coach = createReadingCoach({ client: null, cache: createMemoryCache(), clock });
+
+    expect(coach.hasModel).toBe(false);
+    expect((await coach.getAdvice(context)).source).toBe('offline');
+  });
+
+  it('skips the cache when asked to refresh and starts over the next day', async () => {
+    const { client, generateContent } = createFakeClient(advice(15), advice(14), advice(13));
+    const cache = createMemoryCache();
+    let now = clock();
+    const coach = createReadingCoach({ client, cache, clock: () => now });
+
+    await coach.getAdvice(context);
+    expect((await coach.getAdvice(context, true)).suggestedPagesPerDay).toBe(14);
+    now = new Date(2026, 2, 3, 9);
+    expect((await coach.getAdvice(context)).suggestedPagesPerDay).toBe(13);
+    expect(generateContent).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('getOfflineAdvice', () => {
+  it('works out the pace needed for the deadline from the plan numbers', () => {
+    expect(getOfflineAdvice(context)).toEqual({
+      suggestedPagesPerDay: 15,
+      paceAdjustment: 'increase',
+      message: '15 pages a day gets you through the last 300 pages on time. A little extra now saves a rush later.',
+      riskLevel: 'high',
+      source: 'offline',
+    });
+  });
+
+  it('gives the same advice for the same plan', () => {
+    expect(getOfflineAdvice({ ...context })).toEqual(getOfflineAdvice({ ...context }));
+  });
+
+  it('eases off when ahead and mentions a streak worth keeping', () => {
+    const result = getOfflineAdvice({ ...context, pagesLeft: 100, pageDelta: 40, daysPastDeadline: null, currentStreak: 5 });
+
+    expect(result).toMatchObject({ suggestedPagesPerDay: 5, paceAdjustment: 'decrease', riskLevel: 'low' });
+    expect(result.message).toContain('5-day streak');
+  });
+
+  it('asks for a new date once the deadline has passed', () => {
+    const result = getOfflineAdvice({ ...context, daysToDeadline: 0 });
+
+    expect(result).toMatchObject({ suggestedPagesPerDay: 10, paceAdjustment: 'keep', riskLevel: 'high' });
+    expect(result.message).toContain('deadline has passed with 300 pages to go');
+  });
+});
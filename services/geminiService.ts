@@ -1,5 +1,8 @@
-
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Type } from "@google/genai";
+import { format } from "date-fns";
+import { CoachAdvice, CoachContext, CoachRiskLevel } from "../types";
+import { hashText } from "./hashService";
+import { UNIT_INFO, formatAmountWithUnit } from "./unitService";
 
 // Robust check for the API key in various deployment environments
 const getApiKey = () => {
@@ -10,14 +13,39 @@ const getApiKey = () => {
   }
 };
 
-const ai = new GoogleGenAI({ apiKey: getApiKey() });
+const MODEL = 'gemini-3-flash-preview';
+
+// The slice of the Gemini client the coach relies on, so tests can pass a local fake
+export interface GenerativeClient {
+  models: {
+    generateContent: (request: {
+      model: string;
+      contents: string;
+      config?: Record<string, unknown>;
+    }) => Promise<{ text?: string }>;
+  };
+}
+
+export interface CoachCache {
+  get: (key: string) => CoachAdvice | null;
+  set: (key: string, advice: CoachAdvice) => void;
+}
+
+let defaultClient: GenerativeClient | null = null;
+
+const getDefaultClient = (): GenerativeClient | null => {
+  if (!getApiKey()) return null;
+  if (!defaultClient) defaultClient = new GoogleGenAI({ apiKey: getApiKey() });
+  return defaultClient;
+};
 
 export const getReadingAdvice = async (title: string, pagesLeft: number, pace: number) => {
-  if (!getApiKey()) return "Set an API key to get personalized reading tips!";
-  
+  const ai = getDefaultClient();
+  if (!ai) return "Set an API key to get personalized reading tips!";
+
   try {
     const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+      model: MODEL,
       contents: `I am reading a book titled "${title}". I have ${pagesLeft} pages left and I plan to read ${pace} pages per day. Can you give me a short, motivating reading tip or an interesting fact about reading habits? Keep it under 100 words.`,
       config: {
         temperature: 0.7,
@@ -29,3 +57,165 @@ export const getReadingAdvice = async (title: string, pagesLeft: number, pace: n
     return "Keep going! Every page turned is a step closer to completing your journey through this book.";
   }
 };
+
+const COACH_CACHE_KEY = 'bookbound_coach_cache_v1';
+
+export const localStorageCoachCache: CoachCache = {
+  get: (key) => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(COACH_CACHE_KEY) || '{}');
+      return saved[key] ?? null;
+    } catch (e) {
+      return null;
+    }
+  },
+  set: (key, advice) => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(COACH_CACHE_KEY) || '{}');
+      // Only today's entries are ever read again, so drop everything else
+      const today = key.slice(key.lastIndexOf(':') + 1);
+      const fresh = Object.fromEntries(Object.entries(saved).filter(([entryKey]) => entryKey.endsWith(`:${today}`)));
+      localStorage.setItem(COACH_CACHE_KEY, JSON.stringify({ ...fresh, [key]: advice }));
+    } catch (e) {
+      console.warn("Could not cache coach advice", e);
+    }
+  },
+};
+
+const COACH_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    suggestedPagesPerDay: { type: Type.INTEGER, description: 'Recommended amount per day from today on, in the plan unit' },
+    paceAdjustment: { type: Type.STRING, enum: ['increase', 'decrease', 'keep'] },
+    message: { type: Type.STRING, description: 'A short motivating message, under 60 words' },
+    riskLevel: { type: Type.STRING, enum: ['low', 'medium', 'high'], description: 'Risk of missing the deadline' },
+  },
+  required: ['suggestedPagesPerDay', 'paceAdjustment', 'message', 'riskLevel'],
+  propertyOrdering: ['suggestedPagesPerDay', 'paceAdjustment', 'message', 'riskLevel'],
+};
+
+const RISK_LEVELS: CoachRiskLevel[] = ['low', 'medium', 'high'];
+
+// Checks a model response against COACH_RESPONSE_SCHEMA; returns null when anything is off
+export const parseCoachResponse = (text: string | undefined): CoachAdvice | null => {
+  if (!text) return null;
+  try {
+    const raw = JSON.parse(text);
+    if (
+      typeof raw !== 'object' || raw === null ||
+      !Number.isInteger(raw.suggestedPagesPerDay) || raw.suggestedPagesPerDay <= 0 ||
+      !['increase', 'decrease', 'keep'].includes(raw.paceAdjustment) ||
+      typeof raw.message !== 'string' || !raw.message.trim() ||
+      !RISK_LEVELS.includes(raw.riskLevel)
+    ) {
+      return null;
+    }
+    return {
+      suggestedPagesPerDay: raw.suggestedPagesPerDay,
+      paceAdjustment: raw.paceAdjustment,
+      message: raw.message.trim(),
+      riskLevel: raw.riskLevel,
+      source: 'gemini',
+    };
+  } catch (e) {
+    return null;
+  }
+};
+
+// Deterministic advice from the plan numbers alone, used offline and whenever Gemini fails
+export const getOfflineAdvice = (context: CoachContext): CoachAdvice => {
+  const { pagesLeft, pagesPerDay, daysToDeadline, daysPastDeadline, pageDelta } = context;
+  const amount = (value: number) => formatAmountWithUnit(context.unit, value);
+  const requiredPace = daysToDeadline > 0 ? Math.ceil(pagesLeft / daysToDeadline) : pagesPerDay;
+  const suggestedPagesPerDay = Math.max(1, requiredPace);
+
+  let riskLevel: CoachRiskLevel = 'low';
+  if (daysToDeadline <= 0 || (daysPastDeadline ?? 0) > 3 || requiredPace > pagesPerDay * 1.5) riskLevel = 'high';
+  else if ((daysPastDeadline ?? 0) > 0 || pageDelta < 0) riskLevel = 'medium';
+
+  const paceAdjustment = suggestedPagesPerDay > pagesPerDay ? 'increase' : suggestedPagesPerDay < pagesPerDay ? 'decrease' : 'keep';
+
+  let message: string;
+  if (pagesLeft <= 0) {
+    message = `You've finished ${context.title || 'this book'}. Time to pick the next adventure!`;
+  } else if (daysToDeadline <= 0) {
+    message = `Your deadline has passed with ${amount(pagesLeft)} to go. Set a new date you can commit to and keep the momentum.`;
+  } else if (paceAdjustment === 'increase') {
+    message = `${amount(suggestedPagesPerDay)} a day gets you through the last ${amount(pagesLeft)} on time. A little extra now saves a rush later.`;
+  } else if (paceAdjustment === 'decrease') {
+    message = `You're ahead of schedule. ${amount(suggestedPagesPerDay)} a day is enough to finish on time, so enjoy the breathing room.`;
+  } else {
+    message = `Steady does it: ${amount(pagesPerDay)} a day lands you right on your deadline.`;
+  }
+  if (context.currentStreak >= 3) message += ` Your ${context.currentStreak}-day streak is worth protecting.`;
+
+  return { suggestedPagesPerDay, paceAdjustment, message, riskLevel, source: 'offline' };
+};
+
+const buildCoachPrompt = (context: CoachContext) => `You are a friendly reading coach. Here is the reader's current plan as JSON:
+${JSON.stringify({
+  title: context.title,
+  unit: context.unit === 'duration' ? 'listening minutes' : UNIT_INFO[context.unit].noun,
+  totalPages: context.totalPages,
+  pagesLeft: context.pagesLeft,
+  plannedPagesPerDay: context.pagesPerDay,
+  observedPagesPerDayLastWeek: Number(context.observedPagesPerDay.toFixed(1)),
+  daysUntilDeadline: context.daysToDeadline,
+  pagesAheadOfPlan: context.pageDelta,
+  projectedDaysPastDeadline: context.daysPastDeadline,
+  currentStreakDays: context.currentStreak,
+})}
+Every amount is in the given unit. Suggest the amount per day they should read from today to finish by the deadline, say whether that is an increase, decrease or no change from their plan, rate the risk of missing the deadline, and write a short motivating message that refers to their actual numbers.`;
+
+// Identifies the plan the advice was given for, so an edited plan isn't answered from the cache
+const hashPlan = (context: CoachContext) =>
+  hashText(JSON.stringify([context.totalPages, context.pagesLeft, context.pagesPerDay, context.targetFinishDate, context.status, context.unit]));
+
+interface ReadingCoachOptions {
+  client?: GenerativeClient | null;
+  cache?: CoachCache;
+  clock?: () => Date;
+}
+
+export const createReadingCoach = ({
+  client = getDefaultClient(),
+  cache = localStorageCoachCache,
+  clock = () => new Date(),
+}: ReadingCoachOptions = {}) => ({
+  hasModel: client !== null,
+
+  // Advice is cached per book, plan and day; pass `refresh` to ask again
+  getAdvice: async (context: CoachContext, refresh = false): Promise<CoachAdvice> => {
+    const cacheKey = `${context.bookId}:${hashPlan(context)}:${format(clock(), 'yyyy-MM-dd')}`;
+    if (!refresh) {
+      const cached = cache.get(cacheKey);
+      if (cached) return cached;
+    }
+
+    if (!client) return getOfflineAdvice(context);
+
+    try {
+      const response = await client.models.generateContent({
+        model: MODEL,
+        contents: buildCoachPrompt(context),
+        config: {
+          temperature: 0.4,
+          responseMimeType: 'application/json',
+          responseSchema: COACH_RESPONSE_SCHEMA,
+        },
+      });
+      const advice = parseCoachResponse(response.text);
+      if (!advice) {
+        console.warn("Coach response did not match the schema", response.text);
+        return getOfflineAdvice(context);
+      }
+      cache.set(cacheKey, advice);
+      return advice;
+    } catch (error) {
+      console.error("Error fetching coach advice:", error);
+      return getOfflineAdvice(context);
+    }
+  },
+});
+
+export type ReadingCoach = ReturnType<typeof createReadingCoach>;
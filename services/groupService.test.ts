@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { GroupMember, GroupMembership, GroupPlan } from '../types';
+import { createDefaultAvailability } from './availabilityService';
+import { applyGroupPlan, canJoinGroup, getLeaderboard } from './groupService';
+import { createBook } from './libraryService';
+import { createPlanner } from './planner';
+
+const member = (id: string, pagesRead: number, updatedAt = '2026-03-05T08:00:00.000Z'): GroupMember =>
+  ({ id, name: id, pagesRead, joinedAt: '2026-03-01T08:00:00.000Z', updatedAt });
+
+// 100 pages at 10 a day from Sunday, March 1st, finishing on the 10th
+const makePlan = (members: GroupMember[] = []): GroupPlan => ({
+  code: 'ABCDEF',
+  name: 'Book club',
+  reading: { bookTitle: 'Dune', totalPages: 100, pagesRead: 0, targetFinishDate: '2026-03-10', pagesPerDay: 10, startsFromToday: true },
+  startDate: '2026-03-01',
+  ownerId: 'ana',
+  createdAt: '2026-03-01T08:00:00.000Z',
+  members,
+});
+
+const membership: GroupMembership = { serverUrl: 'http://localhost:8787', code: 'ABCDEF', memberId: 'ben', token: 'secret' };
+
+describe('applyGroupPlan', () => {
+  it('takes the shared reading and the group start as the baseline', () => {
+    const book = applyGroupPlan(createBook({ pagesRead: 12, planStartDate: '2026-03-04', planStartPage: 12 }), makePlan(), membership);
+
+    expect(book).toMatchObject({
+      bookTitle: 'Dune',
+      totalPages: 100,
+      pagesPerDay: 10,
+      targetFinishDate: '2026-03-10',
+      planStartDate: '2026-03-01',
+      planStartPage: 0,
+      pagesRead: 12,
+      unit: 'pages',
+      group: membership,
+    });
+  });
+
+  it('only lets page-based books take part', () => {
+    expect(canJoinGroup(createBook())).toBe(true);
+    expect(canJoinGroup(createBook({ unit: 'percent' }))).toBe(false);
+    expect(canJoinGroup(createBook({ unit: 'duration' }))).toBe(false);
+  });
+
+  it('keeps the shared baseline through local edits', () => {
+    const planner = createPlanner(() => new Date(2026, 2, 5, 12));
+    const book = applyGroupPlan(createBook({ pagesRead: 30 }), makePlan(), membership);
+    const edited = planner.replanBook({ ...book, pagesRead: 35 }, ['pagesRead'], createDefaultAvailability());
+
+    expect(edited.planStartDate).toBe('2026-03-01');
+    expect(edited.planStartPage).toBe(0);
+  });
+});
+
+describe('getLeaderboard', () => {
+  // Thursday the 5th: the schedule stood at 40 pages this morning and reaches 50 tonight
+  const today = new Date(2026, 2, 5);
+
+  it('ranks by pages read and measures each member against the group schedule', () => {
+    const board = getLeaderboard(makePlan([member('dan', 30), member('ana', 60), member('eve', 100), member('ben', 45)]), today);
+
+    expect(board.map(entry => [entry.member.id, entry.rank, entry.status])).toEqual([
+      ['eve', 1, 'finished'],
+      ['ana', 2, 'ahead'],
+      ['ben', 3, 'on-track'],
+      ['dan', 4, 'behind'],
+    ]);
+    expect(board.every(entry => entry.expected === 50)).toBe(true);
+    expect(board.find(entry => entry.member.id === 'dan')?.behindBy).toBe(10);
+    expect(board.find(entry => entry.member.id === 'ben')?.behindBy).toBe(0);
+  });
+
+  it('counts reaching tonight\'s position as ahead and this morning\'s as on track', () => {
+    const board = getLeaderboard(makePlan([member('ana', 50), member('ben', 40), member('cara', 39)]), today);
+
+    expect(board.map(entry => entry.status)).toEqual(['ahead', 'on-track', 'behind']);
+    expect(board[2].behindBy).toBe(1);
+  });
+
+  it('gives tied members the same rank, the earlier reporter first', () => {
+    const board = getLeaderboard(makePlan([
+      member('ben', 45, '2026-03-05T09:00:00.000Z'),
+      member('cara', 45, '2026-03-05T07:00:00.000Z'),
+      member('dan', 20),
+    ]), today);
+
+    expect(board.map(entry => [entry.member.id, entry.rank])).toEqual([['cara', 1], ['ben', 1], ['dan', 3]]);
+  });
+
+  it('puts nobody behind before the plan starts', () => {
+    const board = getLeaderboard(makePlan([member('ana', 0)]), new Date(2026, 1, 27));
+
+    expect(board[0]).toMatchObject({ behindBy: 0, expected: 0 });
+    expect(board[0].status).not.toBe('behind');
+  });
+});
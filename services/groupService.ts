@@ -0,0 +1,135 @@
+import { addDays } from 'date-fns';
+import { Book, GroupMembership, GroupPlan, LeaderboardEntry, LeaderboardStatus, ReadingData } from '../types';
+import { createDefaultAvailability } from './availabilityService';
+import { createBook } from './libraryService';
+import { getExpectedPages } from './rebalanceService';
+
+// Where `npm run sync-server` listens by default
+export const DEFAULT_SYNC_SERVER_URL = 'http://localhost:8787';
+
+export class GroupSyncError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'GroupSyncError';
+    this.status = status;
+  }
+}
+
+type FetchLike = (url: string, init?: RequestInit) => Promise<{ ok: boolean; status: number; json: () => Promise<any> }>;
+
+interface JoinResult {
+  plan: GroupPlan;
+  membership: GroupMembership;
+}
+
+// Talks to a BookBound sync server (server/syncServer.ts); every call resolves to the plan as the server now has it
+export const createGroupClient = (serverUrl: string, fetchJson: FetchLike = (url, init) => fetch(url, init)) => {
+  const baseUrl = serverUrl.trim().replace(/\/+$/, '');
+
+  const request = async (path: string, method = 'GET', body?: unknown, token?: string) => {
+    let response;
+    try {
+      response = await fetchJson(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (e) {
+      throw new GroupSyncError(0, `Could not reach the sync server at ${baseUrl}`);
+    }
+    const data = response.status === 204 ? null : await response.json().catch(() => null);
+    if (!response.ok) throw new GroupSyncError(response.status, data?.error ?? `Sync server responded with ${response.status}`);
+    return data;
+  };
+
+  const withServer = ({ plan, membership }: { plan: GroupPlan; membership: Omit<GroupMembership, 'serverUrl'> }): JoinResult => ({
+    plan,
+    membership: { ...membership, serverUrl: baseUrl },
+  });
+
+  return {
+    createPlan: async (name: string, reading: ReadingData, memberName: string, startDate: string): Promise<JoinResult> =>
+      withServer(await request('/plans', 'POST', { name, reading, memberName, startDate })),
+
+    joinPlan: async (code: string, name: string): Promise<JoinResult> =>
+      withServer(await request(`/plans/${encodeURIComponent(code.trim().toUpperCase())}/members`, 'POST', { name })),
+
+    getPlan: async (code: string): Promise<GroupPlan> =>
+      (await request(`/plans/${encodeURIComponent(code)}`)).plan,
+
+    reportProgress: async (membership: GroupMembership, pagesRead: number): Promise<GroupPlan> =>
+      (await request(`/plans/${membership.code}/members/${membership.memberId}`, 'PUT', { pagesRead }, membership.token)).plan,
+
+    updateReading: async (membership: GroupMembership, reading: ReadingData): Promise<GroupPlan> =>
+      (await request(`/plans/${membership.code}/reading`, 'PUT', { reading }, membership.token)).plan,
+
+    leavePlan: async (membership: GroupMembership) => {
+      await request(`/plans/${membership.code}/members/${membership.memberId}`, 'DELETE', undefined, membership.token);
+    },
+  };
+};
+
+export type GroupClient = ReturnType<typeof createGroupClient>;
+
+export const toReadingData = (book: Book): ReadingData => ({
+  bookTitle: book.bookTitle,
+  totalPages: book.totalPages,
+  pagesRead: book.pagesRead,
+  targetFinishDate: book.targetFinishDate,
+  pagesPerDay: book.pagesPerDay,
+  startsFromToday: book.startsFromToday,
+});
+
+// The plan everyone is measured against: the shared reading data from the group's start date, nothing read yet
+export const getGroupBook = (plan: GroupPlan): Book =>
+  createBook({ ...plan.reading, id: plan.code, pagesRead: 0, planStartDate: plan.startDate, planStartPage: 0 });
+
+// Group plans and the leaderboard count pages, so only page-based books can start or join one
+export const canJoinGroup = (book: Book) => book.unit === 'pages';
+
+// Points a local book at the group plan, so its roadmap is the group schedule rebalanced by this reader's progress
+export const applyGroupPlan = (book: Book, plan: GroupPlan, membership: GroupMembership): Book => ({
+  ...book,
+  unit: 'pages',
+  playbackSpeed: 1,
+  bookTitle: plan.reading.bookTitle,
+  totalPages: plan.reading.totalPages,
+  targetFinishDate: plan.reading.targetFinishDate,
+  pagesPerDay: plan.reading.pagesPerDay,
+  startsFromToday: plan.reading.startsFromToday,
+  planStartDate: plan.startDate,
+  planStartPage: 0,
+  group: membership,
+});
+
+// Members ranked by pages read. "Behind" means short of where the group schedule was at the start of
+// today; reaching tonight's position counts as ahead. Ties share a rank.
+export const getLeaderboard = (plan: GroupPlan, today: Date): LeaderboardEntry[] => {
+  const book = getGroupBook(plan);
+  const availability = createDefaultAvailability();
+  const total = plan.reading.totalPages;
+  const expectedBeforeToday = Math.min(total, getExpectedPages(book, today, availability));
+  const expectedTonight = Math.min(total, getExpectedPages(book, addDays(today, 1), availability));
+
+  const members = [...plan.members].sort((a, b) => b.pagesRead - a.pagesRead || a.updatedAt.localeCompare(b.updatedAt));
+  return members.map((member, index) => {
+    let status: LeaderboardStatus = 'behind';
+    if (member.pagesRead >= total) status = 'finished';
+    else if (member.pagesRead >= expectedTonight) status = 'ahead';
+    else if (member.pagesRead >= expectedBeforeToday) status = 'on-track';
+
+    const firstWithSamePages = members.findIndex(m => m.pagesRead === member.pagesRead);
+    return {
+      member,
+      rank: (firstWithSamePages === -1 ? index : firstWithSamePages) + 1,
+      expected: expectedTonight,
+      behindBy: Math.max(0, expectedBeforeToday - member.pagesRead),
+      status,
+    };
+  });
+};
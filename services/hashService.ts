@@ -0,0 +1,6 @@
+// Short stable hash (djb2) for telling whether generated content changed; not for anything secret
+export const hashText = (text: string) => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash * 33) ^ text.charCodeAt(i)) >>> 0;
+  return hash.toString(36);
+};
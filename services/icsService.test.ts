@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { ScheduleItem } from '../types';
+import { exportCalendar } from './icsService';
+import { createBook } from './libraryService';
+
+const now = new Date(2026, 2, 2, 9);
+
+const item = (date: string, startPage: number, endPage: number): ScheduleItem => ({
+  date,
+  pagesToReadToday: endPage - startPage,
+  startPage,
+  endPage,
+  cumulativePagesRead: endPage,
+  percentComplete: endPage,
+  pagesLogged: 0,
+  status: 'pending',
+});
+
+const book = createBook({ id: 'dune', bookTitle: 'Dune', totalPages: 100 });
+
+// Reading days Monday to Thursday, then the same pages squeezed into Monday and Wednesday
+const original = [item('2026-03-02', 0, 25), item('2026-03-03', 25, 50), item('2026-03-04', 50, 75), item('2026-03-05', 75, 100)];
+const rescheduled = [item('2026-03-02', 0, 50), item('2026-03-04', 50, 100)];
+
+const getEvents = (calendar: string) =>
+  calendar.split('BEGIN:VEVENT').slice(1).map(event => ({
+    uid: event.match(/UID:(.*)\r\n/)?.[1],
+    sequence: Number(event.match(/SEQUENCE:(\d+)/)?.[1]),
+    cancelled: event.includes('STATUS:CANCELLED'),
+  }));
+
+describe('exportCalendar', () => {
+  it('starts at sequence 0 and remembers the exported days', () => {
+    const { calendar, state } = exportCalendar(book, original, undefined, now);
+
+    expect(getEvents(calendar).every(event => event.sequence === 0 && !event.cancelled)).toBe(true);
+    expect(state).toMatchObject({ sequence: 0, dates: ['2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05'] });
+  });
+
+  it('keeps the sequence when nothing changed', () => {
+    const first = exportCalendar(book, original, undefined, now);
+    const again = exportCalendar({ ...book, calendarExport: first.state }, original, undefined, new Date(2026, 2, 2, 18));
+
+    expect(again.state).toEqual(first.state);
+  });
+
+  it('revises the same events after a reschedule and cancels the dropped days', () => {
+    const first = exportCalendar(book, original, undefined, now);
+    const second = exportCalendar({ ...book, calendarExport: first.state }, rescheduled, undefined, now);
+
+    const before = getEvents(first.calendar);
+    const after = getEvents(second.calendar);
+    expect(after.map(event => event.uid).sort()).toEqual(before.map(event => event.uid).sort());
+    expect(after.every(event => event.sequence === 1)).toBe(true);
+    expect(after.filter(event => event.cancelled).map(event => event.uid)).toEqual([
+      'dune-20260303@bookbound',
+      'dune-20260305@bookbound',
+    ]);
+    expect(second.calendar.match(/SUMMARY:Dune: no reading planned/g)).toHaveLength(2);
+  });
+
+  it('keeps cancelling dropped days on later exports until they pass', () => {
+    const first = exportCalendar(book, original, undefined, now);
+    const second = exportCalendar({ ...book, calendarExport: first.state }, rescheduled, undefined, now);
+    const third = exportCalendar({ ...book, calendarExport: second.state }, rescheduled.slice(1), undefined, new Date(2026, 2, 4, 9));
+
+    expect(getEvents(third.calendar).filter(event => event.cancelled).map(event => event.uid)).toEqual(['dune-20260305@bookbound']);
+    expect(third.state).toMatchObject({ sequence: 2, dates: ['2026-03-04', '2026-03-05'] });
+  });
+});
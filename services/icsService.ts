@@ -0,0 +1,136 @@
+import { addDays, addMinutes, format, parseISO } from 'date-fns';
+import { Book, CalendarExportOptions, CalendarExportState, ScheduleItem } from '../types';
+import { hashText } from './hashService';
+import { formatGoal, formatRange } from './unitService';
+
+export const DEFAULT_CALENDAR_OPTIONS: CalendarExportOptions = {
+  durationMinutes: 30,
+  reminder: true,
+  reminderMinutes: 15,
+};
+
+// RFC 5545 §3.3.11: backslashes, semicolons, commas and newlines must be escaped in TEXT values
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF followed by a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatUtcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const getEventTitle = (book: Book, item: ScheduleItem) =>
+  `${book.bookTitle || 'Untitled Book'}: ${formatRange(book.unit, item.startPage, item.endPage)}`;
+
+const getEventTiming = (date: string, options: CalendarExportOptions) => {
+  const day = parseISO(date);
+  if (!options.startTime) {
+    return [`DTSTART;VALUE=DATE:${format(day, 'yyyyMMdd')}`, `DTEND;VALUE=DATE:${format(addDays(day, 1), 'yyyyMMdd')}`];
+  }
+  const [hours, minutes] = options.startTime.split(':').map(Number);
+  const start = addMinutes(day, hours * 60 + minutes);
+  const end = addMinutes(start, Math.max(1, options.durationMinutes));
+  return [`DTSTART:${format(start, "yyyyMMdd'T'HHmmss")}`, `DTEND:${format(end, "yyyyMMdd'T'HHmmss")}`];
+};
+
+// Everything in a reading day's event except its UID, DTSTAMP and SEQUENCE
+const getEventBody = (book: Book, item: ScheduleItem, options: CalendarExportOptions) => {
+  const lines = [
+    ...getEventTiming(item.date, options),
+    `SUMMARY:${escapeText(getEventTitle(book, item))}`,
+    `DESCRIPTION:${escapeText(`${book.unit === 'duration' ? 'Listen to' : 'Read'} ${formatGoal(book, item.pagesToReadToday)} today. You'll be ${item.percentComplete}% through the book.`)}`,
+    'TRANSP:TRANSPARENT',
+  ];
+
+  if (options.reminder) {
+    // All-day events start at midnight, so their reminder fires at 09:00 on the day instead
+    const trigger = options.startTime ? `-PT${Math.max(0, options.reminderMinutes)}M` : 'PT9H';
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(getEventTitle(book, item))}`,
+      `TRIGGER:${trigger}`,
+      'END:VALARM'
+    );
+  }
+  return lines;
+};
+
+export interface CalendarExport {
+  calendar: string;
+  // Store on the book as `calendarExport` so the next export continues from this one
+  state: CalendarExportState;
+}
+
+// One event per reading day. UIDs are derived from the book id and the day, so re-importing after a
+// reschedule updates the existing events instead of duplicating them. SEQUENCE counts revisions of the
+// book's export, and reading days the plan has since dropped are sent as cancelled until they pass.
+export const exportCalendar = (
+  book: Book,
+  items: ScheduleItem[],
+  options: CalendarExportOptions = DEFAULT_CALENDAR_OPTIONS,
+  now: Date = new Date()
+): CalendarExport => {
+  const stamp = formatUtcStamp(now);
+  const previous = book.calendarExport;
+  const activeDates = new Set(items.map(item => item.date));
+  const cancelledDates = (previous?.dates ?? []).filter(date => date >= format(now, 'yyyy-MM-dd') && !activeDates.has(date)).sort();
+
+  const events = [
+    ...items.map(item => ({ date: item.date, body: getEventBody(book, item, options) })),
+    ...cancelledDates.map(date => ({
+      date,
+      body: [...getEventTiming(date, options), `SUMMARY:${escapeText(`${book.bookTitle || 'Untitled Book'}: no reading planned`)}`, 'STATUS:CANCELLED'],
+    })),
+  ];
+  const fingerprint = hashText(JSON.stringify(events));
+  // Clients only accept an event as a revision when its SEQUENCE goes up
+  const sequence = !previous ? 0 : previous.fingerprint === fingerprint ? previous.sequence : previous.sequence + 1;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//BookBound//Reading Planner//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`BookBound: ${book.bookTitle || 'Untitled Book'}`)}`,
+  ];
+  events.forEach(event => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${book.id}-${event.date.replace(/-/g, '')}@bookbound`,
+      `DTSTAMP:${stamp}`,
+      `SEQUENCE:${sequence}`,
+      ...event.body,
+      'END:VEVENT'
+    );
+  });
+  lines.push('END:VCALENDAR');
+
+  return {
+    calendar: lines.map(foldLine).join('\r\n') + '\r\n',
+    state: { sequence, fingerprint, dates: [...activeDates, ...cancelledDates].sort() },
+  };
+};
+
+export const buildCalendar = (book: Book, items: ScheduleItem[], options?: CalendarExportOptions, now?: Date) =>
+  exportCalendar(book, items, options, now).calendar;
@@ -0,0 +1,115 @@
+import { format, addDays, isValid, parseISO } from 'date-fns';
+import { Book, BookStatus, Library, ReadingChallenge, ReadingQueue } from '../types';
+import { createDefaultAvailability, normalizeAvailability } from './availabilityService';
+import { isReadingUnit } from './unitService';
+
+export const BOOK_STATUSES: { value: BookStatus; label: string }[] = [
+  { value: 'queued', label: 'Queued' },
+  { value: 'reading', label: 'Reading' },
+  { value: 'paused', label: 'Paused' },
+  { value: 'finished', label: 'Finished' },
+  { value: 'abandoned', label: 'Abandoned' },
+];
+
+export const generateId = () => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+// A yyyy-MM-dd string naming a real day; date inputs hand over '' when cleared
+export const isValidDateKey = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+const defaultDeadline = () => format(addDays(new Date(), 30), 'yyyy-MM-dd');
+
+export const createBook = (overrides: Partial<Book> = {}): Book => ({
+  id: generateId(),
+  status: 'reading',
+  createdAt: new Date().toISOString(),
+  bookTitle: '',
+  totalPages: 0,
+  pagesRead: 0,
+  targetFinishDate: defaultDeadline(),
+  pagesPerDay: 10, // Default set to 10 as requested
+  startsFromToday: true,
+  sessions: [],
+  planStartDate: format(new Date(), 'yyyy-MM-dd'),
+  planStartPage: overrides.pagesRead ?? 0,
+  rebalanceStrategy: 'extend',
+  catchUpDays: 3,
+  chapters: [],
+  snapToChapters: true,
+  chapterTolerance: 30,
+  unit: 'pages',
+  playbackSpeed: 1,
+  notes: [],
+  ...overrides,
+});
+
+// Fills in fields added after a book was first saved
+export const normalizeBook = (book: Book): Book => ({
+  ...book,
+  status: book.status || 'reading',
+  createdAt: book.createdAt || new Date().toISOString(),
+  targetFinishDate: isValidDateKey(book.targetFinishDate) ? book.targetFinishDate : defaultDeadline(),
+  sessions: Array.isArray(book.sessions) ? book.sessions : [],
+  planStartDate: book.planStartDate || format(new Date(), 'yyyy-MM-dd'),
+  planStartPage: typeof book.planStartPage === 'number' ? book.planStartPage : book.pagesRead,
+  rebalanceStrategy: book.rebalanceStrategy || 'extend',
+  catchUpDays: book.catchUpDays > 0 ? book.catchUpDays : 3,
+  chapters: Array.isArray(book.chapters) ? book.chapters : [],
+  snapToChapters: typeof book.snapToChapters === 'boolean' ? book.snapToChapters : true,
+  chapterTolerance: typeof book.chapterTolerance === 'number' ? book.chapterTolerance : 30,
+  unit: isReadingUnit(book.unit) ? book.unit : 'pages',
+  playbackSpeed: book.playbackSpeed > 0 ? book.playbackSpeed : 1,
+  notes: Array.isArray(book.notes) ? book.notes : [],
+});
+
+// Finishing a book stamps the day so challenges can credit it; any other status clears it
+export const setBookStatus = (book: Book, status: BookStatus): Book => ({
+  ...book,
+  status,
+  finishedAt: status === 'finished' ? book.finishedAt ?? format(new Date(), 'yyyy-MM-dd') : undefined,
+});
+
+// Drops challenges that are missing a period or a positive target
+export const normalizeChallenges = (challenges: unknown): ReadingChallenge[] => {
+  if (!Array.isArray(challenges)) return [];
+  return challenges.filter((challenge): challenge is ReadingChallenge =>
+    typeof challenge === 'object' && challenge !== null &&
+    typeof challenge.id === 'string' &&
+    (challenge.metric === 'books' || challenge.metric === 'pages') &&
+    typeof challenge.target === 'number' && challenge.target > 0 &&
+    typeof challenge.startDate === 'string' && typeof challenge.endDate === 'string' &&
+    challenge.startDate <= challenge.endDate
+  ).map(challenge => ({ ...challenge, title: typeof challenge.title === 'string' ? challenge.title : '' }));
+};
+
+export const MAX_QUEUE_LANES = 3;
+
+export const createDefaultQueue = (): ReadingQueue => ({ bookIds: [], lanes: 1, dailyBudget: 0 });
+
+export const normalizeQueue = (queue: Partial<ReadingQueue> | undefined): ReadingQueue => ({
+  bookIds: Array.isArray(queue?.bookIds) ? queue.bookIds.filter((id): id is string => typeof id === 'string') : [],
+  lanes: Math.min(MAX_QUEUE_LANES, Math.max(1, Math.round(Number(queue?.lanes) || 1))),
+  dailyBudget: Math.max(0, Math.round(Number(queue?.dailyBudget) || 0)),
+});
+
+export const createEmptyLibrary = (): Library => {
+  const book = createBook();
+  return { books: [book], activeBookId: book.id, availability: createDefaultAvailability(), challenges: [], queue: createDefaultQueue() };
+};
+
+// Fills in defaults and drops an activeBookId that no longer points at a book
+export const normalizeLibrary = (library: Library): Library => {
+  const books = library.books.map(normalizeBook);
+  return {
+    books,
+    activeBookId: books.some(book => book.id === library.activeBookId) ? library.activeBookId : books[0]?.id ?? null,
+    availability: normalizeAvailability(library.availability),
+    challenges: normalizeChallenges(library.challenges),
+    queue: normalizeQueue(library.queue),
+  };
+};
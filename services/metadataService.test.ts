@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MetadataProvider, createLocalProvider, createOpenLibraryProvider, lookupBook, normalizeIsbn, toIsbn13 } from './metadataService';
+
+// Answers each URL with the JSON registered for the first matching prefix, and 404 otherwise
+const createFakeFetch = (routes: Record<string, unknown>) =>
+  vi.fn(async (url: string) => {
+    const route = Object.keys(routes).find(prefix => url.startsWith(prefix));
+    return { ok: route !== undefined, status: route !== undefined ? 200 : 404, json: async () => (route !== undefined ? routes[route] : null) };
+  });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('normalizeIsbn', () => {
+  it('strips spaces and hyphens from valid ISBN-10s and ISBN-13s', () => {
+    expect(normalizeIsbn('978-0-14-243724-7')).toBe('9780142437247');
+    expect(normalizeIsbn(' 0 14 243724 7 ')).toBe('0142437247');
+  });
+
+  it('accepts an X check digit in either case on an ISBN-10', () => {
+    expect(normalizeIsbn('0-547-92822-X')).toBe('054792822X');
+    expect(normalizeIsbn('054792822x')).toBe('054792822X');
+  });
+
+  it.each([
+    ['a wrong ISBN-10 check digit', '0142437248'],
+    ['a wrong ISBN-13 check digit', '9780142437246'],
+    ['an X on an ISBN-13', '978014243724X'],
+    ['the wrong length', '97801424372'],
+    ['a title', 'Moby-Dick'],
+  ])('rejects %s', (_, value) => {
+    expect(normalizeIsbn(value)).toBeNull();
+  });
+
+  it('converts an ISBN-10 to the ISBN-13 of the same edition', () => {
+    expect(toIsbn13('0142437247')).toBe('9780142437247');
+    expect(toIsbn13('054792822X')).toBe('9780547928227');
+    expect(toIsbn13('9780547928227')).toBe('9780547928227');
+  });
+});
+
+describe('local provider', () => {
+  const provider = createLocalProvider();
+
+  it('finds a catalogue entry by either ISBN form', async () => {
+    expect(await provider.lookupIsbn('9780547928227')).toMatchObject({ title: 'The Hobbit', pageCount: 300, source: 'Local catalogue' });
+    expect((await provider.lookupIsbn('054792822X'))?.title).toBe('The Hobbit');
+    expect(await provider.lookupIsbn('080442957X')).toBeNull();
+  });
+
+  it('searches titles and authors without regard to case', async () => {
+    expect((await provider.searchTitle('pride')).map(book => book.title)).toEqual(['Pride and Prejudice']);
+    expect((await provider.searchTitle('brontë')).map(book => book.title)).toEqual(['Jane Eyre']);
+    expect(await provider.searchTitle('Dune')).toEqual([]);
+  });
+});
+
+describe('Open Library provider', () => {
+  it('maps a books API record', async () => {
+    const fetch = createFakeFetch({
+      'https://openlibrary.org/api/books': {
+        'ISBN:9780441013593': {
+          title: 'Dune',
+          subtitle: 'Deluxe Edition',
+          authors: [{ name: 'Frank Herbert' }, { name: 'Someone Else' }],
+          number_of_pages: 604,
+          cover: { large: 'https://covers/L.jpg', medium: 'https://covers/M.jpg' },
+          publishers: [{ name: 'Ace' }],
+          publish_date: '2005',
+        },
+      },
+    });
+
+    const book = await createOpenLibraryProvider({ fetch }).lookupIsbn('9780441013593');
+
+    expect(fetch).toHaveBeenCalledWith('https://openlibrary.org/api/books?bibkeys=ISBN:9780441013593&format=json&jscmd=data');
+    expect(book).toEqual({
+      title: 'Dune: Deluxe Edition',
+      author: 'Frank Herbert, Someone Else',
+      pageCount: 604,
+      coverUrl: 'https://covers/M.jpg',
+      isbn: '9780441013593',
+      edition: 'Ace, 2005',
+      source: 'Open Library',
+    });
+  });
+
+  it('leaves out what the record lacks and answers null for an unknown ISBN', async () => {
+    const fetch = createFakeFetch({ 'https://openlibrary.org/api/books?bibkeys=ISBN:1': { 'ISBN:1': { title: 'Bare', number_of_pages: '12' } } });
+    const provider = createOpenLibraryProvider({ fetch });
+
+    expect(await provider.lookupIsbn('1')).toEqual({
+      title: 'Bare',
+      author: undefined,
+      pageCount: undefined,
+      coverUrl: undefined,
+      isbn: '1',
+      edition: undefined,
+      source: 'Open Library',
+    });
+    expect(await createOpenLibraryProvider({ fetch: createFakeFetch({ 'https://openlibrary.org/api/books': {} }) }).lookupIsbn('2')).toBeNull();
+  });
+
+  it('maps search results against a mirror', async () => {
+    const fetch = createFakeFetch({
+      'https://mirror.test/search.json': {
+        docs: [
+          { title: 'Dune', author_name: ['Frank Herbert'], number_of_pages_median: 612, cover_i: 42, isbn: ['bad', '0441013597', '9780441013593'], first_publish_year: 1965 },
+          { title: 'Dune Messiah' },
+          { author_name: ['No title'] },
+        ],
+      },
+    });
+
+    const results = await createOpenLibraryProvider({ baseUrl: 'https://mirror.test', coversUrl: 'https://covers.test', fetch }).searchTitle('dune & co');
+
+    expect(fetch.mock.calls[0][0]).toContain('https://mirror.test/search.json?title=dune%20%26%20co&limit=5');
+    expect(results).toEqual([
+      {
+        title: 'Dune',
+        author: 'Frank Herbert',
+        pageCount: 612,
+        coverUrl: 'https://covers.test/b/id/42-M.jpg',
+        isbn: '0441013597',
+        edition: 'First published 1965',
+        source: 'Open Library',
+      },
+      { title: 'Dune Messiah', author: undefined, pageCount: undefined, coverUrl: undefined, isbn: undefined, edition: undefined, source: 'Open Library' },
+    ]);
+  });
+
+  it('fails on an error response', async () => {
+    await expect(createOpenLibraryProvider({ fetch: createFakeFetch({}) }).searchTitle('Dune')).rejects.toThrow('Open Library responded with 404');
+  });
+});
+
+describe('lookupBook', () => {
+  const failing: MetadataProvider = {
+    name: 'Offline',
+    lookupIsbn: async () => { throw new Error('offline'); },
+    searchTitle: async () => { throw new Error('offline'); },
+  };
+
+  it('looks an ISBN up in order, skipping a provider that fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await lookupBook('0-547-92822-X', [failing, createLocalProvider()])).toMatchObject([{ title: 'The Hobbit' }]);
+  });
+
+  it('gathers title matches from every provider without repeating an edition', async () => {
+    const fetch = createFakeFetch({
+      'https://openlibrary.org/search.json': { docs: [{ title: 'The Hobbit, or There and Back Again', isbn: ['054792822X'] }, { title: 'The Hobbit Companion' }] },
+    });
+
+    const results = await lookupBook('hobbit', [createLocalProvider(), createOpenLibraryProvider({ fetch })]);
+
+    expect(results.map(book => [book.title, book.source])).toEqual([
+      ['The Hobbit', 'Local catalogue'],
+      ['The Hobbit Companion', 'Open Library'],
+    ]);
+  });
+});
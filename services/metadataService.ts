@@ -0,0 +1,148 @@
+import { BookMetadata } from '../types';
+
+// Anything that can look books up; providers are tried in order until one has an answer
+export interface MetadataProvider {
+  name: string;
+  lookupIsbn: (isbn: string) => Promise<BookMetadata | null>;
+  searchTitle: (title: string) => Promise<BookMetadata[]>;
+}
+
+// Strips spaces and hyphens; returns null unless what's left is a checksum-valid ISBN-10 or ISBN-13
+export const normalizeIsbn = (value: string): string | null => {
+  const isbn = value.replace(/[\s-]/g, '').toUpperCase();
+  if (/^\d{9}[\dX]$/.test(isbn)) {
+    const sum = isbn.split('').reduce((total, char, index) => total + (char === 'X' ? 10 : Number(char)) * (10 - index), 0);
+    return sum % 11 === 0 ? isbn : null;
+  }
+  if (/^\d{13}$/.test(isbn)) {
+    const sum = isbn.split('').reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+    return sum % 10 === 0 ? isbn : null;
+  }
+  return null;
+};
+
+// ISBN-10s are matched as their ISBN-13 so either form finds the same edition
+export const toIsbn13 = (isbn: string) => {
+  if (isbn.length === 13) return isbn;
+  const core = `978${isbn.slice(0, 9)}`;
+  const sum = core.split('').reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+  return `${core}${(10 - (sum % 10)) % 10}`;
+};
+
+const matchesTitle = (metadata: BookMetadata, query: string) =>
+  metadata.title.toLowerCase().includes(query.toLowerCase()) ||
+  (metadata.author ?? '').toLowerCase().includes(query.toLowerCase());
+
+// Bundled sample catalogue, so lookups work offline and with no network at all
+export const LOCAL_CATALOGUE: Omit<BookMetadata, 'source'>[] = [
+  { isbn: '9780142437247', title: 'Moby-Dick', author: 'Herman Melville', pageCount: 720, edition: 'Penguin Classics, 2002' },
+  { isbn: '9780743273565', title: 'The Great Gatsby', author: 'F. Scott Fitzgerald', pageCount: 180, edition: 'Scribner, 2004' },
+  { isbn: '9780141439518', title: 'Pride and Prejudice', author: 'Jane Austen', pageCount: 480, edition: 'Penguin Classics, 2002' },
+  { isbn: '9780451524935', title: '1984', author: 'George Orwell', pageCount: 328, edition: 'Signet Classics, 1961' },
+  { isbn: '9780060935467', title: 'To Kill a Mockingbird', author: 'Harper Lee', pageCount: 336, edition: 'Harper Perennial Modern Classics, 2006' },
+  { isbn: '9780547928227', title: 'The Hobbit', author: 'J.R.R. Tolkien', pageCount: 300, edition: 'Houghton Mifflin Harcourt, 2012' },
+  { isbn: '9780141441146', title: 'Jane Eyre', author: 'Charlotte Brontë', pageCount: 532, edition: 'Penguin Classics, 2006' },
+];
+
+export const createLocalProvider = (catalogue: Omit<BookMetadata, 'source'>[] = LOCAL_CATALOGUE): MetadataProvider => {
+  const entries = catalogue.map(entry => ({ ...entry, source: 'Local catalogue' }));
+  return {
+    name: 'Local catalogue',
+    lookupIsbn: async (isbn) => entries.find(entry => entry.isbn && toIsbn13(entry.isbn) === toIsbn13(isbn)) ?? null,
+    searchTitle: async (title) => entries.filter(entry => matchesTitle(entry, title)),
+  };
+};
+
+type FetchLike = (url: string) => Promise<{ ok: boolean; status: number; json: () => Promise<any> }>;
+
+interface OpenLibraryOptions {
+  baseUrl?: string;
+  coversUrl?: string;
+  fetch?: FetchLike;
+}
+
+// Adapter for the Open Library books and search APIs, or any server that mirrors them
+export const createOpenLibraryProvider = ({
+  baseUrl = 'https://openlibrary.org',
+  coversUrl = 'https://covers.openlibrary.org',
+  fetch: fetchJson = (url) => fetch(url),
+}: OpenLibraryOptions = {}): MetadataProvider => {
+  const getJson = async (url: string) => {
+    const response = await fetchJson(url);
+    if (!response.ok) throw new Error(`Open Library responded with ${response.status}`);
+    return response.json();
+  };
+
+  return {
+    name: 'Open Library',
+
+    lookupIsbn: async (isbn) => {
+      const data = await getJson(`${baseUrl}/api/books?bibkeys=ISBN:${isbn}&format=json&jscmd=data`);
+      const book = data?.[`ISBN:${isbn}`];
+      if (!book || typeof book.title !== 'string') return null;
+      const publisher = book.publishers?.[0]?.name;
+      return {
+        title: book.subtitle ? `${book.title}: ${book.subtitle}` : book.title,
+        author: book.authors?.map((author: { name: string }) => author.name).join(', ') || undefined,
+        pageCount: typeof book.number_of_pages === 'number' ? book.number_of_pages : undefined,
+        coverUrl: book.cover?.medium ?? book.cover?.large ?? undefined,
+        isbn,
+        edition: [publisher, book.publish_date].filter(Boolean).join(', ') || undefined,
+        source: 'Open Library',
+      };
+    },
+
+    searchTitle: async (title) => {
+      const fields = 'title,author_name,number_of_pages_median,cover_i,isbn,first_publish_year';
+      const data = await getJson(`${baseUrl}/search.json?title=${encodeURIComponent(title)}&limit=5&fields=${fields}`);
+      const docs: any[] = Array.isArray(data?.docs) ? data.docs : [];
+      return docs
+        .filter(doc => typeof doc.title === 'string')
+        .map(doc => ({
+          title: doc.title,
+          author: doc.author_name?.join(', ') || undefined,
+          pageCount: typeof doc.number_of_pages_median === 'number' ? doc.number_of_pages_median : undefined,
+          coverUrl: doc.cover_i ? `${coversUrl}/b/id/${doc.cover_i}-M.jpg` : undefined,
+          isbn: doc.isbn?.map(normalizeIsbn).find(Boolean) ?? undefined,
+          edition: doc.first_publish_year ? `First published ${doc.first_publish_year}` : undefined,
+          source: 'Open Library',
+        }));
+    },
+  };
+};
+
+export const DEFAULT_PROVIDERS: MetadataProvider[] = [createLocalProvider(), createOpenLibraryProvider()];
+
+// An ISBN returns the first provider's match; a title gathers matches from every provider.
+// A provider that fails (say, offline) is skipped so the others still answer.
+export const lookupBook = async (query: string, providers: MetadataProvider[] = DEFAULT_PROVIDERS): Promise<BookMetadata[]> => {
+  const text = query.trim();
+  if (!text) return [];
+
+  const isbn = normalizeIsbn(text);
+  if (isbn) {
+    for (const provider of providers) {
+      try {
+        const match = await provider.lookupIsbn(isbn);
+        if (match) return [match];
+      } catch (error) {
+        console.warn(`${provider.name} ISBN lookup failed`, error);
+      }
+    }
+    return [];
+  }
+
+  const results = await Promise.all(providers.map(provider =>
+    provider.searchTitle(text).catch(error => {
+      console.warn(`${provider.name} title search failed`, error);
+      return [] as BookMetadata[];
+    })
+  ));
+  const seen = new Set<string>();
+  return results.flat().filter(result => {
+    const key = result.isbn ? toIsbn13(result.isbn) : `${result.title}|${result.author ?? ''}`.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
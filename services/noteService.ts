@@ -0,0 +1,85 @@
+import { format, parseISO } from 'date-fns';
+import { Book, NoteKind, ReadingNote, ReadingUnit } from '../types';
+import { generateId } from './libraryService';
+import { formatAmountWithUnit, formatDuration, formatRange } from './unitService';
+
+export const NOTE_KINDS: { value: NoteKind; label: string }[] = [
+  { value: 'note', label: 'Note' },
+  { value: 'quote', label: 'Quote' },
+  { value: 'highlight', label: 'Highlight' },
+];
+
+export const createNote = (kind: NoteKind, text: string, startPage: number, endPage: number, date: string): ReadingNote => ({
+  id: generateId(),
+  kind,
+  text: text.trim(),
+  startPage: Math.min(startPage, endPage),
+  endPage: Math.max(startPage, endPage),
+  date,
+});
+
+// Anchors are positions rather than day ranges, so a single page reads "p. 41" and a range "p. 41–45"
+export const formatNoteAnchor = (unit: ReadingUnit, note: Pick<ReadingNote, 'startPage' | 'endPage'>) => {
+  const position = (value: number) => (unit === 'duration' ? formatDuration(value) : String(value));
+  const span = note.startPage === note.endPage ? position(note.startPage) : `${position(note.startPage)}–${position(note.endPage)}`;
+  if (unit === 'pages') return `p. ${span}`;
+  if (unit === 'locations') return `loc. ${span}`;
+  if (unit === 'percent') return `${span}%`;
+  return span;
+};
+
+// Book order, then the order they were taken in
+export const sortNotes = (notes: ReadingNote[]) =>
+  [...notes].sort((a, b) => a.startPage - b.startPage || a.date.localeCompare(b.date));
+
+// Notes whose anchor touches the given range, e.g. a roadmap day or a logged session
+export const getNotesInRange = (notes: ReadingNote[], startPage: number, endPage: number) =>
+  sortNotes(notes.filter(note => note.startPage <= endPage && note.endPage >= startPage));
+
+export interface NoteSearchResult {
+  book: Book;
+  note: ReadingNote;
+}
+
+// Every word of the query has to appear in the note, its book's title or its author; newest first
+export const searchNotes = (books: Book[], query: string): NoteSearchResult[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+  return books
+    .flatMap(book => book.notes.map(note => ({ book, note })))
+    .filter(({ book, note }) => {
+      const haystack = `${note.text} ${book.bookTitle} ${book.author ?? ''}`.toLowerCase();
+      return terms.every(term => haystack.includes(term));
+    })
+    .sort((a, b) => b.note.date.localeCompare(a.note.date));
+};
+
+const formatNoteMarkdown = (unit: ReadingUnit, note: ReadingNote) => {
+  const anchor = formatNoteAnchor(unit, note);
+  if (note.kind === 'quote') {
+    return `${note.text.split('\n').map(line => `> ${line}`).join('\n')}\n>\n> — ${anchor}`;
+  }
+  if (note.kind === 'highlight') return `- **Highlight** (${anchor}): ${note.text}`;
+  return `- ${note.text} _(${anchor})_`;
+};
+
+// A reading journal: one heading per day with what was read and what was noted that day
+export const notesToMarkdown = (book: Book) => {
+  const dates = [...new Set([...book.sessions.map(session => session.date), ...book.notes.map(note => note.date)])].sort();
+  const lines = [`# ${book.bookTitle || 'Untitled Book'}`];
+  if (book.author) lines.push('', `_by ${book.author}_`);
+
+  dates.forEach(date => {
+    lines.push('', `## ${format(parseISO(date), 'EEEE, MMMM d, yyyy')}`);
+    book.sessions.filter(session => session.date === date).forEach(session => {
+      const minutes = session.minutes ? ` in ${session.minutes} min` : '';
+      lines.push('', `_Read ${formatRange(book.unit, session.startPage, session.endPage)} (${formatAmountWithUnit(book.unit, session.pagesRead)}${minutes})_`);
+    });
+    sortNotes(book.notes.filter(note => note.date === date)).forEach(note => {
+      lines.push('', formatNoteMarkdown(book.unit, note));
+    });
+  });
+
+  if (dates.length === 0) lines.push('', '_Nothing logged yet._');
+  return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,199 @@
+import { describe, expect, it } from 'vitest';
+import { getDay, parseISO } from 'date-fns';
+import { Book, ReadingAvailability } from '../types';
+import { createDefaultAvailability } from './availabilityService';
+import { createBook } from './libraryService';
+import { getEstimatedFinishDate, getUpcomingItems, createPlanner } from './planner';
+import { MAX_PLAN_DAYS } from './rebalanceService';
+
+// Monday, March 2nd 2026, mid-afternoon; the planner works from the start of that day
+const planner = createPlanner(() => new Date(2026, 2, 2, 15, 30));
+
+const everyDay = createDefaultAvailability();
+const weekdaysOnly: ReadingAvailability = { weekdayWeights: [0, 1, 1, 1, 1, 1, 0], blackouts: [] };
+
+const makeBook = (overrides: Partial<Book> = {}): Book =>
+  createBook({
+    id: 'book',
+    createdAt: '2026-03-01T09:00:00.000Z',
+    totalPages: 100,
+    pagesRead: 0,
+    pagesPerDay: 10,
+    targetFinishDate: '2026-03-11',
+    planStartDate: '2026-03-02',
+    planStartPage: 0,
+    startsFromToday: true,
+    ...overrides,
+  });
+
+// A week into a 10-pages-a-day plan with only 20 pages read, 50 pages behind
+const makeBehindBook = (overrides: Partial<Book> = {}) =>
+  makeBook({ totalPages: 200, pagesRead: 20, planStartDate: '2026-02-23', ...overrides });
+
+describe('buildPlan', () => {
+  it('schedules the daily goal from today with ISO dates until the last page', () => {
+    const plan = planner.buildPlan(makeBook(), everyDay);
+
+    expect(plan.pastDays).toBe(0);
+    expect(plan.truncated).toBe(false);
+    expect(plan.items).toHaveLength(10);
+    expect(plan.items[0]).toMatchObject({ date: '2026-03-02', pagesToReadToday: 10, startPage: 1, endPage: 10, status: 'pending' });
+    expect(plan.items[9]).toMatchObject({ date: '2026-03-11', endPage: 100, cumulativePagesRead: 100, percentComplete: 100 });
+    expect(getEstimatedFinishDate(plan)).toBe('2026-03-11');
+    expect(planner.getTodaysTarget(plan)?.date).toBe('2026-03-02');
+  });
+
+  it('treats progress past the last page as finished instead of planning negative pages', () => {
+    const plan = planner.buildPlan(makeBook({ pagesRead: 150 }), everyDay);
+
+    expect(getUpcomingItems(plan)).toEqual([]);
+    expect(plan.truncated).toBe(false);
+    expect(getEstimatedFinishDate(plan)).toBeNull();
+  });
+
+  it('stops at the 365-day horizon and flags the plan as truncated', () => {
+    const plan = planner.buildPlan(makeBook({ totalPages: 1000, pagesPerDay: 1 }), everyDay);
+
+    expect(plan.items).toHaveLength(MAX_PLAN_DAYS);
+    expect(plan.items[plan.items.length - 1].endPage).toBe(MAX_PLAN_DAYS);
+    expect(plan.truncated).toBe(true);
+  });
+
+  it('returns an empty plan without a daily goal or a length', () => {
+    expect(planner.buildPlan(makeBook({ pagesPerDay: 0 }), everyDay).items).toEqual([]);
+    expect(planner.buildPlan(makeBook({ totalPages: 0 }), everyDay).items).toEqual([]);
+  });
+
+  it('skips rest days', () => {
+    const plan = planner.buildPlan(makeBook(), weekdaysOnly);
+
+    expect(plan.items.map(item => getDay(parseISO(item.date)))).not.toContain(0);
+    expect(plan.items.map(item => getDay(parseISO(item.date)))).not.toContain(6);
+    expect(getEstimatedFinishDate(plan)).toBe('2026-03-13');
+  });
+
+  it('skips blackout dates and scales weighted days', () => {
+    const availability: ReadingAvailability = {
+      weekdayWeights: [1, 1, 2, 1, 1, 1, 1],
+      blackouts: [{ id: 'trip', label: 'Trip', start: '2026-03-04', end: '2026-03-05' }],
+    };
+    const plan = planner.buildPlan(makeBook(), availability);
+
+    expect(plan.items.map(item => item.date)).not.toContain('2026-03-04');
+    expect(plan.items.map(item => item.date)).not.toContain('2026-03-05');
+    expect(plan.items.find(item => item.date === '2026-03-03')?.pagesToReadToday).toBe(20);
+  });
+
+  it('keeps the baseline for past days and marks them missed', () => {
+    const plan = planner.buildPlan(makeBehindBook(), everyDay);
+
+    expect(plan.pastDays).toBe(7);
+    expect(plan.items.slice(0, plan.pastDays).every(item => item.status === 'missed')).toBe(true);
+    expect(getUpcomingItems(plan)[0]).toMatchObject({ date: '2026-03-02', startPage: 21 });
+  });
+
+  describe('rebalance strategies', () => {
+    const upcomingLoads = (book: Book) => getUpcomingItems(planner.buildPlan(book, everyDay)).map(item => item.pagesToReadToday);
+
+    it('extend keeps the daily goal and lets the finish date move', () => {
+      const loads = upcomingLoads(makeBehindBook({ rebalanceStrategy: 'extend' }));
+
+      expect(loads.every(load => load === 10)).toBe(true);
+      expect(loads).toHaveLength(18);
+    });
+
+    it('spread raises the goal so the deadline still holds', () => {
+      const plan = planner.buildPlan(makeBehindBook({ rebalanceStrategy: 'spread' }), everyDay);
+
+      expect(getUpcomingItems(plan)[0].pagesToReadToday).toBe(18);
+      expect(getEstimatedFinishDate(plan)! <= '2026-03-11').toBe(true);
+    });
+
+    it('spread keeps the goal once the deadline has passed', () => {
+      const loads = upcomingLoads(makeBehindBook({ rebalanceStrategy: 'spread', targetFinishDate: '2026-02-28' }));
+
+      expect(loads[0]).toBe(10);
+    });
+
+    it('catchup adds the missing pages to the next few days, then resumes the goal', () => {
+      const loads = upcomingLoads(makeBehindBook({ rebalanceStrategy: 'catchup', catchUpDays: 3 }));
+
+      expect(loads.slice(0, 4)).toEqual([27, 27, 27, 10]);
+    });
+  });
+});
+
+describe('suggestPagesPerDay', () => {
+  it('spreads the pages left over the days up to the deadline', () => {
+    expect(planner.suggestPagesPerDay(makeBook(), everyDay)).toBe(10);
+  });
+
+  it('counts only reading days', () => {
+    expect(planner.suggestPagesPerDay(makeBook(), weekdaysOnly)).toBe(13);
+  });
+
+  it('starts counting tomorrow when the goal is not active from today', () => {
+    expect(planner.suggestPagesPerDay(makeBook({ startsFromToday: false }), everyDay)).toBe(12);
+  });
+
+  it('has no suggestion once the deadline has passed', () => {
+    expect(planner.suggestPagesPerDay(makeBook({ targetFinishDate: '2026-02-28' }), everyDay)).toBeNull();
+  });
+
+  it('has no suggestion when progress is past the last page', () => {
+    expect(planner.suggestPagesPerDay(makeBook({ pagesRead: 150 }), everyDay)).toBeNull();
+  });
+});
+
+describe('replanBook', () => {
+  it('works the pace out again and re-baselines when the deadline moves', () => {
+    const book = makeBehindBook({ targetFinishDate: '2026-03-19' });
+    const replanned = planner.replanBook(book, ['targetFinishDate'], everyDay);
+
+    expect(replanned.pagesPerDay).toBe(10);
+    expect(replanned.planStartDate).toBe('2026-03-02');
+    expect(replanned.planStartPage).toBe(20);
+  });
+
+  it('leaves the plan alone when only the title changes', () => {
+    const book = makeBehindBook({ bookTitle: 'Renamed' });
+
+    expect(planner.replanBook(book, ['bookTitle'], everyDay)).toBe(book);
+  });
+
+  it('keeps the pace of a time goal', () => {
+    const book = makeBook({ minutesPerDay: 30, targetFinishDate: '2026-03-06' });
+
+    expect(planner.replanBook(book, ['targetFinishDate'], everyDay).pagesPerDay).toBe(10);
+  });
+
+  it('keeps the pace when the new deadline has already passed', () => {
+    const book = makeBook({ targetFinishDate: '2026-02-20' });
+
+    expect(planner.replanBook(book, ['targetFinishDate'], everyDay).pagesPerDay).toBe(10);
+  });
+});
+
+describe('getPlanBalance', () => {
+  it('measures progress against where the baseline expected it', () => {
+    const balance = planner.getPlanBalance(makeBehindBook(), everyDay);
+
+    expect(balance).toMatchObject({ expectedPages: 70, pageDelta: -50, deadlinePassed: false });
+    expect(balance.projectedFinish).toBe('2026-03-19');
+    expect(balance.daysPastDeadline).toBe(8);
+  });
+
+  it('reports a deadline in the past', () => {
+    const balance = planner.getPlanBalance(makeBook({ targetFinishDate: '2026-02-28' }), everyDay);
+
+    expect(balance.deadlinePassed).toBe(true);
+    expect(balance.daysPastDeadline).toBe(11);
+  });
+
+  it('clamps progress past the last page', () => {
+    const balance = planner.getPlanBalance(makeBook({ pagesRead: 150 }), everyDay);
+
+    expect(balance.pageDelta).toBe(100);
+    expect(balance.projectedFinish).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+import { addDays, format, isAfter, isBefore, isValid, parseISO, startOfDay } from 'date-fns';
+import { Book, PlanBalance, ReadingAvailability, ReadingPlan, ScheduleItem, ScheduleStatus } from '../types';
+import { pagesByDate, pagesLoggedOn, toDateKey } from './sessionService';
+import { sumWeightsBetween } from './availabilityService';
+import { getChapterLabel, snapLoadsToChapters } from './chapterService';
+import { fromGoalAmount, toGoalAmount } from './unitService';
+import { getDailyPageGoal, isPlanningByTime } from './speedService';
+import {
+  getBaselineLoads,
+  getFirstReadingDay,
+  getPagesAtStartOfDay,
+  getPlanBalance,
+  planDailyLoads,
+} from './rebalanceService';
+
+// Source of "now" for the planner; pass a fixed clock to plan against a known date
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+// Progress beyond the last page is treated as finished rather than as negative pages left.
+// Audiobook goals are listening minutes, so the plan advances by the audio heard at speed;
+// a time goal for other books becomes pages at the reader's measured speed.
+const clampProgress = (book: Book): Book => {
+  const totalPages = Math.max(0, book.totalPages);
+  return {
+    ...book,
+    totalPages,
+    pagesPerDay: fromGoalAmount(book, getDailyPageGoal(book)),
+    pagesRead: Math.min(Math.max(0, book.pagesRead), totalPages),
+    planStartPage: Math.min(Math.max(0, book.planStartPage), totalPages),
+  };
+};
+
+// Past days keep their baseline targets so they can be marked against the session log;
+// from today on the rebalancing engine decides each day's load from actual progress
+export const buildPlan = (input: Book, today: Date, availability: ReadingAvailability): ReadingPlan => {
+  const book = clampProgress(input);
+  const items: ScheduleItem[] = [];
+  if (book.pagesPerDay <= 0 || book.totalPages <= 0) return { items, pastDays: 0, truncated: false };
+
+  const total = book.totalPages;
+  const logged = pagesByDate(book.sessions);
+  const todayStart = startOfDay(today);
+  const bookFinished = book.pagesRead >= total;
+
+  const pushItem = (date: Date, readToday: number, pagesBefore: number) => {
+    const pagesLogged = logged[toDateKey(date)] ?? 0;
+    let status: ScheduleStatus = 'pending';
+    if (pagesLogged >= readToday) status = 'completed';
+    else if (pagesLogged > 0) status = 'partial';
+    else if (isBefore(date, todayStart)) status = 'missed';
+
+    items.push({
+      date: toDateKey(date),
+      pagesToReadToday: readToday,
+      startPage: pagesBefore + 1,
+      endPage: pagesBefore + readToday,
+      cumulativePagesRead: pagesBefore + readToday,
+      percentComplete: Math.round(((pagesBefore + readToday) / total) * 100),
+      pagesLogged,
+      status,
+      chapterLabel: getChapterLabel(book.chapters, pagesBefore + 1, pagesBefore + readToday)
+    });
+  };
+
+  const baseline = getBaselineLoads(book, todayStart, availability);
+  let plannedPages = book.planStartPage;
+  baseline.forEach(load => {
+    pushItem(load.date, load.pages, plannedPages);
+    plannedPages += load.pages;
+  });
+
+  const pagesAtStart = getPagesAtStartOfDay(book, todayStart);
+  const firstDay = getFirstReadingDay(book, todayStart);
+  let loads = planDailyLoads(book, total - pagesAtStart, plannedPages - pagesAtStart, firstDay, availability);
+  if (book.snapToChapters && book.chapters.length > 0) {
+    loads = snapLoadsToChapters(loads, pagesAtStart, total, book.chapters, book.chapterTolerance);
+  }
+
+  let currentPagesRead = pagesAtStart;
+  loads.forEach(load => {
+    if (bookFinished && isAfter(load.date, todayStart)) return;
+    pushItem(load.date, load.pages, currentPagesRead);
+    currentPagesRead += load.pages;
+  });
+
+  return {
+    items,
+    pastDays: baseline.length,
+    truncated: !bookFinished && currentPagesRead < total,
+  };
+};
+
+// Daily goal per normal day needed to finish on the deadline, or null when the deadline has
+// passed or there is nothing left to read
+export const suggestPagesPerDay = (input: Book, today: Date, availability: ReadingAvailability): number | null => {
+  const book = clampProgress(input);
+  const deadline = parseISO(book.targetFinishDate);
+  if (!isValid(deadline)) return null;
+
+  const todayStart = startOfDay(today);
+  const pagesLeft = book.totalPages - Math.max(0, book.pagesRead - pagesLoggedOn(book, todayStart));
+  // Weighted reading days, so rest days and blackouts still add up to the deadline
+  const firstDay = addDays(todayStart, book.startsFromToday ? 0 : 1);
+  const capacity = sumWeightsBetween(firstDay, deadline, availability);
+
+  if (capacity <= 0 || pagesLeft <= 0) return null;
+  return Math.ceil(toGoalAmount(book, pagesLeft / capacity));
+};
+
+// Restarts the plan from the beginning of today, keeping anything already logged today as today's reading.
+// A book in a group plan keeps the group's start, so every member is measured against the same schedule.
+export const rebaselineBook = (book: Book, today: Date): Book => book.group ? book : {
+  ...book,
+  planStartDate: toDateKey(today),
+  planStartPage: Math.max(0, book.pagesRead - pagesLoggedOn(book, today)),
+};
+
+// Edits that move the finish line; the daily goal is worked out again from the deadline after them
+const PACE_FIELDS: (keyof Book)[] = ['targetFinishDate', 'totalPages', 'pagesRead', 'unit', 'playbackSpeed'];
+
+// Applies the follow-up to editing a book's plan: a fresh pace when the finish line moved (a time goal
+// keeps its own) and, for anything but the title, a new baseline from the start of today
+export const replanBook = (book: Book, changedFields: (keyof Book)[], today: Date, availability: ReadingAvailability): Book => {
+  let updated = book;
+  if (changedFields.some(field => PACE_FIELDS.includes(field)) && !isPlanningByTime(book)) {
+    const suggestedPace = suggestPagesPerDay(book, today, availability);
+    if (suggestedPace !== null) updated = { ...book, pagesPerDay: suggestedPace };
+  }
+  return changedFields.every(field => field === 'bookTitle') ? updated : rebaselineBook(updated, today);
+};
+
+export const formatScheduleDate = (isoDate: string) => format(parseISO(isoDate), 'MMM dd, EEE');
+
+export const getTodaysTarget = (plan: ReadingPlan, today: Date) =>
+  plan.items.find(item => item.date === toDateKey(today));
+
+export const getUpcomingItems = (plan: ReadingPlan) => plan.items.slice(plan.pastDays);
+
+export const getEstimatedFinishDate = (plan: ReadingPlan): string | null => {
+  const upcoming = getUpcomingItems(plan);
+  return upcoming.length > 0 ? upcoming[upcoming.length - 1].date : null;
+};
+
+// Binds the planner to a clock so callers never reach for `new Date()` themselves
+export const createPlanner = (clock: Clock = systemClock) => {
+  const today = () => startOfDay(clock());
+  return {
+    today,
+    buildPlan: (book: Book, availability: ReadingAvailability) => buildPlan(book, today(), availability),
+    suggestPagesPerDay: (book: Book, availability: ReadingAvailability) => suggestPagesPerDay(book, today(), availability),
+    replanBook: (book: Book, changedFields: (keyof Book)[], availability: ReadingAvailability) =>
+      replanBook(book, changedFields, today(), availability),
+    getPlanBalance: (book: Book, availability: ReadingAvailability): PlanBalance =>
+      getPlanBalance(clampProgress(book), today(), availability),
+    getTodaysTarget: (plan: ReadingPlan) => getTodaysTarget(plan, today()),
+  };
+};
+
+export type Planner = ReturnType<typeof createPlanner>;
@@ -0,0 +1,88 @@
+import { addDays, isAfter, parseISO, startOfDay } from 'date-fns';
+import { Book, QueueProjection, ReadingAvailability, ReadingQueue, ScheduleItem } from '../types';
+import { toDateKey } from './sessionService';
+import { buildPlan, getUpcomingItems } from './planner';
+import { getPagesAtStartOfDay } from './rebalanceService';
+import { getDailyPageGoal } from './speedService';
+
+const isSchedulable = (book: Book) => book.status === 'reading' || book.status === 'queued';
+
+// Books to schedule in order: the saved order first, then any reading or queued book it doesn't
+// mention yet, oldest first. Books already being read always go ahead of queued ones.
+export const getQueueOrder = (queue: ReadingQueue, books: Book[]): Book[] => {
+  const byId = new Map<string, Book>(books.map(book => [book.id, book]));
+  const listed = queue.bookIds.map(id => byId.get(id)).filter((book): book is Book => !!book && isSchedulable(book));
+  const unlisted = books
+    .filter(book => isSchedulable(book) && !queue.bookIds.includes(book.id))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const ordered = [...listed, ...unlisted];
+  return [...ordered.filter(book => book.status === 'reading'), ...ordered.filter(book => book.status !== 'reading')];
+};
+
+// Moves a book one place up or down, writing out the full order so unlisted books keep their spot
+export const moveInQueue = (queue: ReadingQueue, books: Book[], bookId: string, offset: -1 | 1): ReadingQueue => {
+  const ids = getQueueOrder(queue, books).map(book => book.id);
+  const from = ids.indexOf(bookId);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= ids.length) return queue;
+  [ids[from], ids[to]] = [ids[to], ids[from]];
+  return { ...queue, bookIds: ids };
+};
+
+// Pace for a book in the queue: its share of the daily budget, or its own goal (a time goal in
+// pages). Budgets are counted in pages, so books tracked in other units always keep their own goal.
+export const getQueuePace = (book: Book, queue: ReadingQueue) =>
+  queue.dailyBudget > 0 && book.unit === 'pages' ? Math.max(1, Math.ceil(queue.dailyBudget / queue.lanes)) : getDailyPageGoal(book);
+
+// Plan for a book that starts fresh on `start`, at its queue pace with the finish date left free
+const projectFrom = (book: Book, start: Date, queue: ReadingQueue, availability: ReadingAvailability) =>
+  buildPlan(
+    {
+      ...book,
+      pagesPerDay: getQueuePace(book, queue),
+      minutesPerDay: undefined,
+      planStartDate: toDateKey(start),
+      planStartPage: getPagesAtStartOfDay(book, start),
+      startsFromToday: true,
+      rebalanceStrategy: 'extend',
+    },
+    start,
+    availability
+  );
+
+// Schedules the queue back to back: each book takes the lane that frees up first and starts the
+// day after that lane's previous book is projected to finish. Books being read keep their own
+// plan unless a shared budget is set.
+export const buildQueueProjections = (
+  books: Book[],
+  queue: ReadingQueue,
+  today: Date,
+  availability: ReadingAvailability
+): QueueProjection[] => {
+  const todayStart = startOfDay(today);
+  const laneFree = Array.from({ length: queue.lanes }, () => todayStart);
+  const projections: QueueProjection[] = [];
+
+  getQueueOrder(queue, books).forEach(book => {
+    const lane = laneFree.reduce((best, date, index) => (isAfter(laneFree[best], date) ? index : best), 0);
+    const start = laneFree[lane];
+
+    const plan = book.status === 'reading' && queue.dailyBudget === 0 && !isAfter(start, todayStart)
+      ? buildPlan(book, todayStart, availability)
+      : projectFrom(book, start, queue, availability);
+    const items = getUpcomingItems(plan);
+    const finishDate = items.length > 0 ? items[items.length - 1].date : null;
+
+    projections.push({ bookId: book.id, lane, startDate: items[0]?.date ?? toDateKey(start), finishDate, items, truncated: plan.truncated });
+    // A book with nothing left to schedule leaves its lane free for the next one
+    if (finishDate) laneFree[lane] = addDays(parseISO(finishDate), 1);
+  });
+
+  return projections;
+};
+
+// One roadmap across the queue, in date order and by lane within a day
+export const getQueueRoadmap = (projections: QueueProjection[]): { bookId: string; lane: number; item: ScheduleItem }[] =>
+  projections
+    .flatMap(projection => projection.items.map(item => ({ bookId: projection.bookId, lane: projection.lane, item })))
+    .sort((a, b) => a.item.date.localeCompare(b.item.date) || a.lane - b.lane);
@@ -0,0 +1,108 @@
+import { addDays, differenceInDays, format, isAfter, isBefore, isValid, parseISO, startOfDay } from 'date-fns';
+import { Book, PlanBalance, ReadingAvailability, RebalanceStrategy } from '../types';
+import { pagesLoggedOn } from './sessionService';
+import { getDayCapacity, getDayWeight, hasReadingDays, sumWeightsBetween } from './availabilityService';
+
+export const REBALANCE_STRATEGIES: { value: RebalanceStrategy; label: string; description: string }[] = [
+  { value: 'extend', label: 'Push Finish Date', description: 'Keep the daily goal and let the finish date move' },
+  { value: 'spread', label: 'Spread to Deadline', description: 'Recalculate the daily goal so you still finish on the deadline' },
+  { value: 'catchup', label: 'Catch-up Days', description: 'Add the missing pages to the next few days, then resume the goal' },
+];
+
+export interface DailyLoad {
+  date: Date;
+  pages: number;
+}
+
+export const MAX_PLAN_DAYS = 365;
+
+const getPlanFirstDay = (book: Book) => addDays(parseISO(book.planStartDate), book.startsFromToday ? 0 : 1);
+
+// First day the plan can still assign reading to: today, or the plan's own start if that is later
+export const getFirstReadingDay = (book: Book, today: Date) => {
+  const todayStart = startOfDay(today);
+  const planFirstDay = getPlanFirstDay(book);
+  return isAfter(planFirstDay, todayStart) ? planFirstDay : todayStart;
+};
+
+// Baseline loads for the days before today, as originally planned
+export const getBaselineLoads = (book: Book, today: Date, availability: ReadingAvailability): DailyLoad[] => {
+  const loads: DailyLoad[] = [];
+  if (book.pagesPerDay <= 0 || !hasReadingDays(availability)) return loads;
+
+  const todayStart = startOfDay(today);
+  let plannedPages = book.planStartPage;
+  let date = getPlanFirstDay(book);
+  for (let day = 0; plannedPages < book.totalPages && isBefore(date, todayStart) && day < MAX_PLAN_DAYS; day++) {
+    const pages = Math.min(getDayCapacity(date, book.pagesPerDay, availability), book.totalPages - plannedPages);
+    if (pages > 0) {
+      loads.push({ date, pages });
+      plannedPages += pages;
+    }
+    date = addDays(date, 1);
+  }
+  return loads;
+};
+
+// Pages the baseline plan expected to be read before today started
+export const getExpectedPages = (book: Book, today: Date, availability: ReadingAvailability) =>
+  getBaselineLoads(book, today, availability).reduce((sum, load) => sum + load.pages, book.planStartPage);
+
+export const getPagesAtStartOfDay = (book: Book, today: Date) =>
+  Math.min(book.totalPages, Math.max(0, book.pagesRead - pagesLoggedOn(book, today)));
+
+// Daily page loads from the first reading day onwards, shaped by the book's rebalancing strategy.
+// Rest days and blackout dates are skipped; weighted days scale the base pace.
+export const planDailyLoads = (
+  book: Book,
+  pagesRemaining: number,
+  deficit: number,
+  firstDay: Date,
+  availability: ReadingAvailability
+): DailyLoad[] => {
+  const loads: DailyLoad[] = [];
+  if (pagesRemaining <= 0 || book.pagesPerDay <= 0 || !hasReadingDays(availability)) return loads;
+
+  let basePace = book.pagesPerDay;
+  let boosts: number[] = [];
+
+  if (book.rebalanceStrategy === 'spread') {
+    const deadline = parseISO(book.targetFinishDate);
+    const capacity = isValid(deadline) ? sumWeightsBetween(firstDay, deadline, availability) : 0;
+    // A deadline that has already passed leaves nothing to spread over, so keep the goal
+    if (capacity > 0) basePace = Math.ceil(pagesRemaining / capacity);
+  } else if (book.rebalanceStrategy === 'catchup' && deficit > 0) {
+    const catchUpDays = Math.max(1, book.catchUpDays);
+    boosts = Array.from({ length: catchUpDays }, () => Math.ceil(deficit / catchUpDays));
+  }
+
+  let remaining = pagesRemaining;
+  for (let day = 0; remaining > 0 && day < MAX_PLAN_DAYS; day++) {
+    const date = addDays(firstDay, day);
+    if (getDayWeight(date, availability) <= 0) continue;
+
+    const pages = Math.min(remaining, getDayCapacity(date, basePace, availability) + (boosts[loads.length] ?? 0));
+    loads.push({ date, pages });
+    remaining -= pages;
+  }
+
+  return loads;
+};
+
+export const getPlanBalance = (book: Book, today: Date, availability: ReadingAvailability): PlanBalance => {
+  const expectedPages = getExpectedPages(book, today, availability);
+  const pagesAtStart = getPagesAtStartOfDay(book, today);
+  const firstDay = getFirstReadingDay(book, today);
+  const loads = planDailyLoads(book, book.totalPages - pagesAtStart, expectedPages - pagesAtStart, firstDay, availability);
+
+  const finish = loads.length > 0 ? loads[loads.length - 1].date : null;
+  const deadline = parseISO(book.targetFinishDate);
+
+  return {
+    expectedPages,
+    pageDelta: book.pagesRead - expectedPages,
+    projectedFinish: finish ? format(finish, 'yyyy-MM-dd') : null,
+    daysPastDeadline: finish && isValid(deadline) ? differenceInDays(finish, deadline) : null,
+    deadlinePassed: isValid(deadline) && isBefore(deadline, startOfDay(today)),
+  };
+};
@@ -0,0 +1,89 @@
+import { isAfter, set } from 'date-fns';
+import { Book, ReminderSettings, ScheduleItem } from '../types';
+import { toDateKey } from './sessionService';
+import { formatGoal, formatRange } from './unitService';
+
+const REMINDER_STORAGE_KEY = 'bookbound_reminder_v1';
+
+// One tag for every reminder, so a new one replaces the last and marking done can clear it
+export const REMINDER_TAG = 'bookbound-daily-reminder';
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = { enabled: false, time: '20:00', lastShown: null };
+
+export const isNotificationSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// Reminders are per device, so they live beside the theme rather than in the library backup
+export const loadReminderSettings = (): ReminderSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(REMINDER_STORAGE_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') return DEFAULT_REMINDER_SETTINGS;
+    return {
+      enabled: saved.enabled === true,
+      time: typeof saved.time === 'string' && /^\d{2}:\d{2}$/.test(saved.time) ? saved.time : DEFAULT_REMINDER_SETTINGS.time,
+      lastShown: typeof saved.lastShown === 'string' ? saved.lastShown : null,
+    };
+  } catch (e) {
+    return DEFAULT_REMINDER_SETTINGS;
+  }
+};
+
+export const saveReminderSettings = (settings: ReminderSettings) => {
+  localStorage.setItem(REMINDER_STORAGE_KEY, JSON.stringify(settings));
+};
+
+const atTime = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return set(day, { hours, minutes, seconds: 0, milliseconds: 0 });
+};
+
+// Milliseconds until today's reminder time, or null once it has passed
+export const getDelayUntilReminder = (settings: ReminderSettings, now: Date) => {
+  const delay = atTime(now, settings.time).getTime() - now.getTime();
+  return delay > 0 ? delay : null;
+};
+
+// Due once the time has passed, as long as today hasn't had a reminder and still has reading left.
+// Opening the app after the time catches up on a reminder that was missed while it was closed.
+export const isReminderDue = (settings: ReminderSettings, now: Date, remainingToday: number) =>
+  settings.enabled &&
+  remainingToday > 0 &&
+  settings.lastShown !== toDateKey(now) &&
+  !isAfter(atTime(now, settings.time), now);
+
+export const getReminderMessage = (book: Book, item: ScheduleItem, remainingToday: number) => {
+  const target = `${book.unit === 'duration' ? 'Listen to' : 'Read'} ${formatGoal(book, item.pagesToReadToday)} today`;
+  const progress = remainingToday < item.pagesToReadToday ? ` (${formatGoal(book, remainingToday)} to go)` : '';
+  return {
+    title: `Time to read ${book.bookTitle || 'your book'}`,
+    body: `${target}${progress} · ${formatRange(book.unit, item.startPage, item.endPage)}`,
+  };
+};
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!isNotificationSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// Goes through the service worker when there is one, since mobile browsers only allow that route
+export const showReminder = async (title: string, body: string) => {
+  if (!isNotificationSupported() || Notification.permission !== 'granted') return false;
+  const options: NotificationOptions = { body, tag: REMINDER_TAG, icon: './icon-192.png', badge: './icon-192.png' };
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) await registration.showNotification(title, options);
+    else new Notification(title, options);
+    return true;
+  } catch (error) {
+    console.error("Could not show reading reminder:", error);
+    return false;
+  }
+};
+
+// Takes down a reminder that is still showing, e.g. once the day is marked done
+export const clearReminder = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.getRegistration();
+  const shown = registration ? await registration.getNotifications({ tag: REMINDER_TAG }) : [];
+  shown.forEach(notification => notification.close());
+};
@@ -0,0 +1,173 @@
+import { ReportCard } from '../types';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const FONT_STACK = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
+
+// A self-contained page with inline styles, so the file opens and shares without the app
+export const reportCardToHtml = (card: ReportCard) => {
+  const stats = card.stats.map(stat => `
+        <div class="stat">
+          <div class="label">${escapeHtml(stat.label)}</div>
+          <div class="value">${escapeHtml(stat.value)}</div>
+          ${stat.detail ? `<div class="detail">${escapeHtml(stat.detail)}</div>` : ''}
+        </div>`).join('');
+  const highlights = card.highlights.map(line => `<li>${escapeHtml(line)}</li>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(`${card.eyebrow}: ${card.title}`)}</title>
+  <style>
+    body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; padding: 24px; box-sizing: border-box;
+      font-family: ${FONT_STACK}; background: linear-gradient(135deg, #6366f1, #a855f7 55%, #ec4899); color: #1a1a1e; }
+    .card { width: 100%; max-width: 560px; background: #fff; border-radius: 32px; padding: 40px; box-shadow: 0 30px 60px rgba(49, 46, 129, 0.35); }
+    .eyebrow { font-size: 11px; font-weight: 900; letter-spacing: 0.2em; text-transform: uppercase; color: #6366f1; }
+    h1 { margin: 8px 0 4px; font-size: 34px; font-weight: 900; letter-spacing: -0.02em; line-height: 1.1; }
+    .subtitle { font-size: 14px; font-weight: 700; color: #6b7280; }
+    .stats { display: grid; grid-template-columns: repeat(2, 1fr); gap: 12px; margin: 28px 0; }
+    .stat { background: #f8f9ff; border-radius: 20px; padding: 16px; }
+    .label { font-size: 10px; font-weight: 900; letter-spacing: 0.15em; text-transform: uppercase; color: #9ca3af; }
+    .value { margin-top: 6px; font-size: 24px; font-weight: 900; letter-spacing: -0.02em; }
+    .detail { margin-top: 2px; font-size: 11px; font-weight: 700; color: #9ca3af; }
+    ul { margin: 0; padding: 0; list-style: none; }
+    li { padding: 10px 0; border-top: 1px solid #f3f4f6; font-size: 14px; font-weight: 700; color: #374151; }
+    .footer { margin-top: 24px; font-size: 11px; font-weight: 900; letter-spacing: 0.2em; text-transform: uppercase; color: #a78bfa; }
+  </style>
+</head>
+<body>
+  <main class="card">
+    <div class="eyebrow">${escapeHtml(card.eyebrow)}</div>
+    <h1>${escapeHtml(card.title)}</h1>
+    <div class="subtitle">${escapeHtml(card.subtitle)}</div>
+    <section class="stats">${stats}
+    </section>
+    ${highlights ? `<ul>${highlights}</ul>` : ''}
+    <div class="footer">BookBound</div>
+  </main>
+</body>
+</html>
+`;
+};
+
+const PNG_WIDTH = 1080;
+const PNG_PADDING = 72;
+
+const roundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) => {
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + width, y, x + width, y + height, radius);
+  ctx.arcTo(x + width, y + height, x, y + height, radius);
+  ctx.arcTo(x, y + height, x, y, radius);
+  ctx.arcTo(x, y, x + width, y, radius);
+  ctx.closePath();
+};
+
+// Breaks text into lines no wider than maxWidth, at spaces where possible
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(' ').forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+// The same card drawn onto a canvas, sized to its content, for sharing as an image
+export const renderReportCardPng = (card: ReportCard): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas is not available'));
+
+  const inner = PNG_WIDTH - PNG_PADDING * 4;
+  const font = (weight: number, size: number) => `${weight} ${size}px ${FONT_STACK}`;
+
+  // Measure first so the canvas height fits the title and highlights
+  ctx.font = font(900, 64);
+  const titleLines = wrapText(ctx, card.title, inner);
+  ctx.font = font(700, 28);
+  const highlightLines = card.highlights.flatMap(line => wrapText(ctx, line, inner));
+  const statRows = Math.ceil(card.stats.length / 2);
+  const statHeight = 150;
+  const cardHeight = 60 + 40 + titleLines.length * 72 + 44 + 48 + statRows * (statHeight + 20) + 20 + highlightLines.length * 52 + 40 + 40 + 60;
+  canvas.width = PNG_WIDTH;
+  canvas.height = cardHeight + PNG_PADDING * 2;
+
+  const background = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+  background.addColorStop(0, '#6366f1');
+  background.addColorStop(0.55, '#a855f7');
+  background.addColorStop(1, '#ec4899');
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const left = PNG_PADDING * 2;
+  ctx.fillStyle = '#ffffff';
+  roundedRect(ctx, PNG_PADDING, PNG_PADDING, PNG_WIDTH - PNG_PADDING * 2, cardHeight, 56);
+  ctx.fill();
+
+  let y = PNG_PADDING + 60;
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#6366f1';
+  ctx.font = font(900, 24);
+  ctx.fillText(card.eyebrow.toUpperCase(), left, y);
+  y += 40;
+
+  ctx.fillStyle = '#1a1a1e';
+  ctx.font = font(900, 64);
+  titleLines.forEach(line => {
+    ctx.fillText(line, left, y);
+    y += 72;
+  });
+
+  ctx.fillStyle = '#6b7280';
+  ctx.font = font(700, 28);
+  ctx.fillText(card.subtitle, left, y + 4, inner);
+  y += 44 + 48;
+
+  const statWidth = (inner - 20) / 2;
+  card.stats.forEach((stat, index) => {
+    const x = left + (index % 2) * (statWidth + 20);
+    const top = y + Math.floor(index / 2) * (statHeight + 20);
+    ctx.fillStyle = '#f5f3ff';
+    roundedRect(ctx, x, top, statWidth, statHeight, 32);
+    ctx.fill();
+    ctx.fillStyle = '#9ca3af';
+    ctx.font = font(900, 20);
+    ctx.fillText(stat.label.toUpperCase(), x + 28, top + 26, statWidth - 56);
+    ctx.fillStyle = '#1a1a1e';
+    ctx.font = font(900, 44);
+    ctx.fillText(stat.value, x + 28, top + 56, statWidth - 56);
+    if (stat.detail) {
+      ctx.fillStyle = '#9ca3af';
+      ctx.font = font(700, 22);
+      ctx.fillText(stat.detail, x + 28, top + 110, statWidth - 56);
+    }
+  });
+  y += statRows * (statHeight + 20) + 20;
+
+  ctx.fillStyle = '#374151';
+  ctx.font = font(700, 28);
+  highlightLines.forEach(line => {
+    ctx.fillText(line, left, y + 12);
+    y += 52;
+  });
+  y += 40;
+
+  ctx.fillStyle = '#a78bfa';
+  ctx.font = font(900, 22);
+  ctx.fillText('BOOKBOUND', left, y);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), 'image/png');
+  });
+};
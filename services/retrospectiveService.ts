@@ -0,0 +1,133 @@
+import { differenceInDays, format, parseISO } from 'date-fns';
+import { Book, BookRetrospective, ReportCard, YearInReview } from '../types';
+import { buildDailyHistory, getPageBooks, getStreaks } from './analyticsService';
+import { getFinishDate } from './challengeService';
+import { pagesByDate, toDateKey } from './sessionService';
+import { formatAmountWithUnit, formatGoal } from './unitService';
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Finish day of a book that is done: the stamped one, or its last session when the position
+// was run up to the end without marking the book finished
+const getCompletionDate = (book: Book) => {
+  const finished = getFinishDate(book);
+  if (finished || book.totalPages <= 0 || book.pagesRead < book.totalPages) return finished;
+  const dates = book.sessions.map(session => session.date).sort();
+  return dates.length > 0 ? dates[dates.length - 1] : null;
+};
+
+// Null until the book is finished
+export const getBookRetrospective = (book: Book): BookRetrospective | null => {
+  const finishDate = getCompletionDate(book);
+  if (!finishDate) return null;
+
+  const history = pagesByDate(book.sessions);
+  const days = Object.keys(history).sort();
+  const firstDay = days[0] ?? toDateKey(parseISO(book.createdAt));
+  const startDate = firstDay < finishDate ? firstDay : finishDate;
+  const readingDays = days.filter(date => history[date] > 0).length;
+  const pagesLogged = Object.values(history).reduce((sum, pages) => sum + pages, 0);
+
+  return {
+    book,
+    startDate,
+    finishDate,
+    plannedDays: Math.max(1, differenceInDays(parseISO(book.targetFinishDate), parseISO(startDate)) + 1),
+    actualDays: differenceInDays(parseISO(finishDate), parseISO(startDate)) + 1,
+    daysAhead: differenceInDays(parseISO(book.targetFinishDate), parseISO(finishDate)),
+    readingDays,
+    averagePace: readingDays > 0 ? pagesLogged / readingDays : 0,
+    longestStreak: getStreaks(history, parseISO(finishDate)).longest,
+    notesCount: book.notes.length,
+  };
+};
+
+// Years with at least one finished book, newest first
+export const getReviewYears = (books: Book[]) =>
+  [...new Set(books.map(getCompletionDate).filter((date): date is string => date !== null).map(date => Number(date.slice(0, 4))))]
+    .sort((a, b) => b - a);
+
+// Streaks and reading days count any logged session in the year; pages only come from page-based books
+export const getYearInReview = (books: Book[], year: number): YearInReview => {
+  const inYear = (date: string) => date.startsWith(`${year}-`);
+  const retrospectives = books
+    .map(getBookRetrospective)
+    .filter((retro): retro is BookRetrospective => retro !== null && inYear(retro.finishDate))
+    .sort((a, b) => a.finishDate.localeCompare(b.finishDate));
+
+  const history = Object.fromEntries(Object.entries(buildDailyHistory(books)).filter(([date, pages]) => inYear(date) && pages > 0));
+  const monthly: Record<string, number> = {};
+  Object.entries(buildDailyHistory(getPageBooks(books))).filter(([date]) => inYear(date)).forEach(([date, pages]) => {
+    monthly[date.slice(0, 7)] = (monthly[date.slice(0, 7)] ?? 0) + pages;
+  });
+  const busiest = Object.entries(monthly).sort((a, b) => b[1] - a[1])[0];
+
+  return {
+    year,
+    books: retrospectives,
+    pagesFinished: retrospectives.filter(retro => retro.book.unit === 'pages').reduce((sum, retro) => sum + retro.book.totalPages, 0),
+    readingDays: Object.keys(history).length,
+    longestStreak: getStreaks(history, parseISO(`${year}-12-31`)).longest,
+    notesCount: retrospectives.reduce((sum, retro) => sum + retro.notesCount, 0),
+    onTimeCount: retrospectives.filter(retro => retro.daysAhead >= 0).length,
+    busiestMonth: busiest && busiest[1] > 0 ? { month: busiest[0], pages: busiest[1] } : null,
+  };
+};
+
+// e.g. "3 days early", "On the deadline" or "2 days late"
+export const formatDeadlineDelta = (daysAhead: number) => {
+  if (daysAhead === 0) return 'On the deadline';
+  return daysAhead > 0 ? `${plural(daysAhead, 'day')} early` : `${plural(-daysAhead, 'day')} late`;
+};
+
+export const toBookReportCard = (retro: BookRetrospective): ReportCard => {
+  const { book } = retro;
+  return {
+    eyebrow: 'Book Wrapped',
+    title: book.bookTitle || 'Untitled Book',
+    subtitle: [book.author ? `by ${book.author}` : null, `${format(parseISO(retro.startDate), 'MMM d')} – ${format(parseISO(retro.finishDate), 'MMM d, yyyy')}`]
+      .filter(Boolean).join(' · '),
+    stats: [
+      { label: 'Took', value: plural(retro.actualDays, 'day'), detail: `planned ${retro.plannedDays}` },
+      { label: 'Deadline', value: formatDeadlineDelta(retro.daysAhead) },
+      { label: 'Average Pace', value: formatGoal(book, retro.averagePace), detail: 'per reading day' },
+      { label: 'Longest Streak', value: plural(retro.longestStreak, 'day') },
+      { label: 'Reading Days', value: String(retro.readingDays) },
+      { label: 'Notes', value: String(retro.notesCount) },
+    ],
+    highlights: [
+      `${formatAmountWithUnit(book.unit, book.totalPages)} finished`,
+      retro.actualDays < retro.plannedDays ? `${plural(retro.plannedDays - retro.actualDays, 'day')} quicker than planned` : null,
+    ].filter((line): line is string => line !== null),
+  };
+};
+
+// Books listed by name on a year card; the rest are counted
+const MAX_LISTED_BOOKS = 6;
+
+export const toYearReportCard = (review: YearInReview): ReportCard => {
+  const fastest = [...review.books].sort((a, b) => a.actualDays - b.actualDays)[0];
+  const unlisted = review.books.length - MAX_LISTED_BOOKS;
+  return {
+    eyebrow: 'Year in Review',
+    title: `${review.year} in Books`,
+    subtitle: `${plural(review.books.length, 'book')} finished`,
+    stats: [
+      { label: 'Pages', value: review.pagesFinished.toLocaleString('en-US'), detail: 'in finished books' },
+      { label: 'Reading Days', value: String(review.readingDays) },
+      { label: 'Longest Streak', value: plural(review.longestStreak, 'day') },
+      { label: 'On Time', value: `${review.onTimeCount} / ${review.books.length}`, detail: 'by the deadline' },
+      { label: 'Notes', value: String(review.notesCount) },
+      {
+        label: 'Busiest Month',
+        value: review.busiestMonth ? format(parseISO(`${review.busiestMonth.month}-01`), 'MMMM') : '--',
+        detail: review.busiestMonth ? `${review.busiestMonth.pages} pages` : undefined,
+      },
+    ],
+    highlights: [
+      ...review.books.slice(0, MAX_LISTED_BOOKS).map(retro => `${retro.book.bookTitle || 'Untitled Book'} · ${format(parseISO(retro.finishDate), 'MMM d')}`),
+      unlisted > 0 ? `and ${plural(unlisted, 'more book')}` : null,
+      fastest ? `Quickest read: ${fastest.book.bookTitle || 'Untitled Book'} in ${plural(fastest.actualDays, 'day')}` : null,
+    ].filter((line): line is string => line !== null),
+  };
+};
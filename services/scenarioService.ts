@@ -0,0 +1,75 @@
+import { format, isAfter, parseISO } from 'date-fns';
+import { Book, PlanScenario, ReadingAvailability, ScenarioProjection } from '../types';
+import { generateId } from './libraryService';
+import { buildPlan, getEstimatedFinishDate, getUpcomingItems, rebaselineBook, suggestPagesPerDay } from './planner';
+import { getPagesAtStartOfDay } from './rebalanceService';
+import { toDateKey } from './sessionService';
+import { formatAmountWithUnit } from './unitService';
+
+export const SCENARIO_DAY_PRESETS: { label: string; weekdayWeights: number[] }[] = [
+  { label: 'Every day', weekdayWeights: [1, 1, 1, 1, 1, 1, 1] },
+  { label: 'Weekdays only', weekdayWeights: [0, 1, 1, 1, 1, 1, 0] },
+  { label: 'Weekends only', weekdayWeights: [1, 0, 0, 0, 0, 0, 1] },
+];
+
+export const CURRENT_SCENARIO: PlanScenario = { id: 'current', name: 'Current plan', pagesPerDay: null, targetFinishDate: null, weekdayWeights: null };
+
+// Short label from the overrides, e.g. "15 pages / day · Weekends only"
+export const describeScenario = (book: Book, scenario: Omit<PlanScenario, 'id' | 'name'>) => {
+  const days = scenario.weekdayWeights
+    ? SCENARIO_DAY_PRESETS.find(preset => preset.weekdayWeights.join() === scenario.weekdayWeights?.join())?.label ?? 'Custom days'
+    : null;
+  return [
+    scenario.pagesPerDay !== null ? `${formatAmountWithUnit(book.unit, scenario.pagesPerDay)} / day` : null,
+    scenario.targetFinishDate ? `Finish by ${format(parseISO(scenario.targetFinishDate), 'MMM d')}` : null,
+    days,
+  ].filter(Boolean).join(' · ') || CURRENT_SCENARIO.name;
+};
+
+export const createScenario = (book: Book, overrides: Omit<PlanScenario, 'id' | 'name'>): PlanScenario => ({
+  id: generateId(),
+  name: describeScenario(book, overrides),
+  ...overrides,
+});
+
+// The book and reading days the scenario describes, re-planned from today. A new deadline without
+// a pace of its own gets the pace that meets it, as editing the deadline in Plan Adjustments does.
+// With no overrides the plan is left exactly as it is, so it matches the roadmap.
+export const applyScenario = (book: Book, availability: ReadingAvailability, scenario: PlanScenario, today: Date) => {
+  if (scenario.pagesPerDay === null && scenario.targetFinishDate === null && scenario.weekdayWeights === null) {
+    return { book, availability };
+  }
+  const nextAvailability = scenario.weekdayWeights ? { ...availability, weekdayWeights: scenario.weekdayWeights } : availability;
+  const next = rebaselineBook({ ...book, targetFinishDate: scenario.targetFinishDate ?? book.targetFinishDate }, today);
+  // A scenario pace, or one worked out from its deadline, replaces any time goal
+  if (scenario.pagesPerDay !== null) {
+    next.pagesPerDay = scenario.pagesPerDay;
+    next.minutesPerDay = undefined;
+  } else if (scenario.targetFinishDate !== null) {
+    next.pagesPerDay = suggestPagesPerDay(next, today, nextAvailability) ?? next.pagesPerDay;
+    next.minutesPerDay = undefined;
+  }
+  return { book: next, availability: nextAvailability };
+};
+
+export const projectScenario = (book: Book, availability: ReadingAvailability, scenario: PlanScenario, today: Date): ScenarioProjection => {
+  const applied = applyScenario(book, availability, scenario, today);
+  const plan = buildPlan(applied.book, today, applied.availability);
+  const upcoming = getUpcomingItems(plan);
+  const finishDate = plan.truncated ? null : getEstimatedFinishDate(plan);
+  const loads = upcoming.map(item => item.pagesToReadToday);
+
+  return {
+    scenario,
+    ...applied,
+    finishDate,
+    averageLoad: loads.length > 0 ? loads.reduce((sum, load) => sum + load, 0) / loads.length : 0,
+    peakLoad: loads.length > 0 ? Math.max(...loads) : 0,
+    readingDays: loads.length,
+    meetsDeadline: finishDate !== null && !isAfter(parseISO(finishDate), parseISO(applied.book.targetFinishDate)),
+    progress: [
+      { date: toDateKey(today), pagesRead: getPagesAtStartOfDay(applied.book, today) },
+      ...upcoming.map(item => ({ date: item.date, pagesRead: item.cumulativePagesRead })),
+    ],
+  };
+};
@@ -0,0 +1,39 @@
+import { format } from 'date-fns';
+import { Book, ReadingSession } from '../types';
+import { generateId } from './libraryService';
+
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Total pages logged per calendar day, keyed by yyyy-MM-dd
+export const pagesByDate = (sessions: ReadingSession[]) => {
+  const totals: Record<string, number> = {};
+  sessions.forEach(session => {
+    totals[session.date] = (totals[session.date] ?? 0) + session.pagesRead;
+  });
+  return totals;
+};
+
+export const pagesLoggedOn = (book: Book, date: Date) => pagesByDate(book.sessions)[toDateKey(date)] ?? 0;
+
+// Appends a session and moves pagesRead forward, capped at the end of the book
+export const logSession = (book: Book, pages: number, date: Date, minutes?: number): Book => {
+  const pagesToLog = Math.min(Math.max(0, Math.floor(pages)), Math.max(0, book.totalPages - book.pagesRead));
+  if (pagesToLog <= 0) return book;
+
+  const session: ReadingSession = {
+    id: generateId(),
+    date: toDateKey(date),
+    pagesRead: pagesToLog,
+    startPage: book.pagesRead + 1,
+    endPage: book.pagesRead + pagesToLog,
+    ...(minutes && minutes > 0 ? { minutes } : {}),
+  };
+
+  const pagesRead = book.pagesRead + pagesToLog;
+  return {
+    ...book,
+    pagesRead,
+    sessions: [...book.sessions, session],
+    ...(pagesRead >= book.totalPages ? { status: 'finished' as const, finishedAt: book.finishedAt ?? session.date } : {}),
+  };
+};
@@ -0,0 +1,46 @@
+import { Book } from '../types';
+import { UNIT_INFO, formatAmount } from './unitService';
+
+// Timed reading needed before a measured speed is trusted
+const MIN_TIMED_MINUTES = 15;
+
+// Only the latest timed sessions count, so the speed follows the reader as a book gets easier or harder
+const SPEED_WINDOW = 10;
+
+// Audiobooks already plan in listening time, so only the other units can switch to a time goal
+export const canPlanByTime = (book: Book) => book.unit !== 'duration';
+
+// Amount read per minute of reading, measured from the book's timed sessions; null until enough time
+// has been logged. Audio advances at the playback speed, so audiobooks need no calibration.
+export const getReadingSpeed = (book: Book): number | null => {
+  if (book.unit === 'duration') return book.playbackSpeed;
+  const timed = book.sessions.filter(session => session.minutes && session.minutes > 0).slice(-SPEED_WINDOW);
+  const minutes = timed.reduce((sum, session) => sum + (session.minutes ?? 0), 0);
+  const pages = timed.reduce((sum, session) => sum + session.pagesRead, 0);
+  return minutes >= MIN_TIMED_MINUTES && pages > 0 ? pages / minutes : null;
+};
+
+export const isPlanningByTime = (book: Book) => canPlanByTime(book) && !!book.minutesPerDay && book.minutesPerDay > 0;
+
+// Pages a normal day asks for: the time goal at the measured speed when planning by time. Until
+// the speed is known the page goal stands in for it.
+export const getDailyPageGoal = (book: Book) => {
+  const speed = isPlanningByTime(book) ? getReadingSpeed(book) : null;
+  return speed !== null && book.minutesPerDay ? Math.max(1, Math.round(book.minutesPerDay * speed)) : book.pagesPerDay;
+};
+
+// Minutes an amount of reading should take, or null while the book's speed is unknown
+export const estimateReadingMinutes = (book: Book, pages: number): number | null => {
+  if (pages <= 0) return 0;
+  const speed = getReadingSpeed(book);
+  return speed !== null ? Math.max(1, Math.round(pages / speed)) : null;
+};
+
+// e.g. "~25m" or "~1h 05m"
+export const formatReadingTime = (minutes: number) => `~${formatAmount('duration', minutes)}`;
+
+// e.g. "1.4 pages / min" or "0.8% / min"
+export const formatReadingSpeed = (book: Book, speed: number) => {
+  const value = speed >= 10 ? String(Math.round(speed)) : speed.toFixed(1);
+  return book.unit === 'percent' ? `${value}% / min` : `${value} ${UNIT_INFO[book.unit].noun} / min`;
+};
@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Library } from '../types';
+import { createBook } from './libraryService';
+import {
+  STORAGE_SCHEMA_VERSION,
+  StorageValidationError,
+  createLibraryStore,
+  createMemoryBackend,
+  readStoredLibrary,
+  upgradeLibrary,
+} from './storageService';
+
+const storedWith = (bookFields: Record<string, unknown>) => {
+  const book = { ...createBook({ id: 'book', bookTitle: 'Dune', totalPages: 412 }), ...bookFields };
+  return JSON.stringify({ schemaVersion: STORAGE_SCHEMA_VERSION, savedAt: '', library: { books: [book], activeBookId: 'book' } });
+};
+
+describe('readStoredLibrary', () => {
+  it('repairs a cleared deadline instead of rejecting the library', () => {
+    const { library } = readStoredLibrary(storedWith({ targetFinishDate: '' }));
+
+    expect(library.books[0].bookTitle).toBe('Dune');
+    expect(library.books[0].targetFinishDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+
+  it('repairs a missing or impossible deadline', () => {
+    expect(readStoredLibrary(storedWith({ targetFinishDate: undefined })).library.books[0].targetFinishDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(readStoredLibrary(storedWith({ targetFinishDate: '2026-02-31' })).library.books[0].targetFinishDate).not.toBe('2026-02-31');
+  });
+
+  it('keeps a valid deadline', () => {
+    expect(readStoredLibrary(storedWith({ targetFinishDate: '2026-12-01' })).library.books[0].targetFinishDate).toBe('2026-12-01');
+  });
+
+  it('still rejects a deadline of the wrong type', () => {
+    expect(() => readStoredLibrary(storedWith({ targetFinishDate: 20261201 }))).toThrow(StorageValidationError);
+  });
+});
+
+describe('upgradeLibrary', () => {
+  it('turns the single-book record from schema 0 into a library', () => {
+    const library = upgradeLibrary({ bookTitle: 'Dune', totalPages: 412, pagesRead: 412, targetFinishDate: '2026-05-01', pagesPerDay: 20, startsFromToday: true }, 0);
+
+    expect(library.books).toHaveLength(1);
+    expect(library.books[0]).toMatchObject({ bookTitle: 'Dune', totalPages: 412, status: 'finished', unit: 'pages' });
+    expect(library.activeBookId).toBe(library.books[0].id);
+    expect(library.queue).toEqual({ bookIds: [], lanes: 1, dailyBudget: 0 });
+  });
+
+  it('gives a schema 1 library the defaults added since', () => {
+    const { unit, notes, playbackSpeed, ...book } = createBook({ id: 'book', bookTitle: 'Dune' });
+    const library = upgradeLibrary({ books: [book], activeBookId: 'gone' }, 1);
+
+    expect(library.books[0]).toMatchObject({ unit: 'pages', notes: [], playbackSpeed: 1 });
+    expect(library.activeBookId).toBe('book');
+    expect(library.challenges).toEqual([]);
+    expect(library.availability.weekdayWeights).toHaveLength(7);
+  });
+
+  it('rejects data from a newer schema or that fails validation after migrating', () => {
+    expect(() => upgradeLibrary({}, STORAGE_SCHEMA_VERSION + 1)).toThrow('saved by a newer version of BookBound');
+    expect(() => upgradeLibrary({ books: [] }, 1)).toThrow(StorageValidationError);
+  });
+});
+
+describe('library store', () => {
+  const saved = (library: Partial<Library>, savedAt: string) =>
+    JSON.stringify({ schemaVersion: STORAGE_SCHEMA_VERSION, savedAt, library });
+  const libraryOf = (id: string, bookTitle: string) => ({ books: [createBook({ id, bookTitle })], activeBookId: id });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('quarantines a corrupt payload untouched and starts over', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const backend = createMemoryBackend();
+    await backend.set('library', '{"schemaVersion": 2, "library": {"books": "nope"}}');
+
+    const { library, quarantined } = await createLibraryStore(backend, null).load();
+
+    expect(library.books).toHaveLength(1);
+    expect(quarantined).toHaveLength(1);
+    expect(quarantined[0].raw).toBe('{"schemaVersion": 2, "library": {"books": "nope"}}');
+    expect(quarantined[0].reasons).toEqual(['library.books must be a non-empty array']);
+    expect(readStoredLibrary((await backend.get('library'))!).library.books[0].id).toBe(library.books[0].id);
+  });
+
+  it('quarantines saved data that is not JSON', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const backend = createMemoryBackend();
+    await backend.set('library', 'not json');
+
+    const store = createLibraryStore(backend, null);
+    const { quarantined } = await store.load();
+
+    expect(quarantined.map(record => record.reasons)).toEqual([['saved data is not valid JSON']]);
+    await store.discardQuarantined(quarantined[0].key);
+    expect((await store.load()).quarantined).toEqual([]);
+  });
+
+  it('takes saves made to the fallback while the backend was unavailable', async () => {
+    const backend = createMemoryBackend();
+    const fallback = createMemoryBackend();
+    await backend.set('library', saved(libraryOf('old', 'Before the fallback'), '2026-03-01T08:00:00.000Z'));
+    await fallback.set('library', saved(libraryOf('new', 'Saved to the fallback'), '2026-03-02T08:00:00.000Z'));
+
+    const { library } = await createLibraryStore(backend, fallback).load();
+
+    expect(library.books[0].bookTitle).toBe('Saved to the fallback');
+    expect(readStoredLibrary((await backend.get('library'))!).library.books[0].bookTitle).toBe('Saved to the fallback');
+    expect(await fallback.get('library')).toBeNull();
+  });
+
+  it('keeps the backend record when the fallback copy is older, and drops the copy', async () => {
+    const backend = createMemoryBackend();
+    const fallback = createMemoryBackend();
+    await backend.set('library', saved(libraryOf('new', 'Saved later'), '2026-03-02T08:00:00.000Z'));
+    await fallback.set('library', saved(libraryOf('old', 'Stale copy'), '2026-03-01T08:00:00.000Z'));
+
+    const store = createLibraryStore(backend, fallback);
+
+    expect((await store.load()).library.books[0].bookTitle).toBe('Saved later');
+    expect(await fallback.get('library')).toBeNull();
+    expect((await store.load()).library.books[0].bookTitle).toBe('Saved later');
+  });
+});
@@ -0,0 +1,296 @@
+import { Library, QuarantinedRecord, ReadingData, StoredLibrary } from '../types';
+import { createDefaultAvailability } from './availabilityService';
+import { validateLibrary } from './backupService';
+import { createBook, createEmptyLibrary, normalizeLibrary } from './libraryService';
+
+export class StorageValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Saved library could not be loaded: ${issues.join('; ')}`);
+    this.name = 'StorageValidationError';
+    this.issues = issues;
+  }
+}
+
+// Each step upgrades data saved at schema version n (its index) to version n + 1
+const MIGRATIONS: ((data: any) => unknown)[] = [
+  // 0 → 1: the single-book record from before there was a library
+  (legacy: Partial<ReadingData>) => {
+    const book = createBook({
+      ...legacy,
+      status: legacy.totalPages && legacy.pagesRead && legacy.pagesRead >= legacy.totalPages ? 'finished' : 'reading',
+    });
+    return { books: [book], activeBookId: book.id, availability: createDefaultAvailability() };
+  },
+  // 1 → 2: books from before units, notes, challenges and the queue get their defaults
+  (library: Library) => normalizeLibrary(library),
+];
+
+export const STORAGE_SCHEMA_VERSION = MIGRATIONS.length;
+
+// Runs every migration between the saved version and the current one, then validates the result
+export const upgradeLibrary = (data: unknown, schemaVersion: number): Library => {
+  if (!Number.isInteger(schemaVersion) || schemaVersion < 0) {
+    throw new StorageValidationError([`schema version ${String(schemaVersion)} is not valid`]);
+  }
+  if (schemaVersion > STORAGE_SCHEMA_VERSION) {
+    throw new StorageValidationError([`saved by a newer version of BookBound (schema ${schemaVersion}, expected ${STORAGE_SCHEMA_VERSION} or lower)`]);
+  }
+
+  let upgraded = data;
+  for (let version = schemaVersion; version < STORAGE_SCHEMA_VERSION; version++) {
+    try {
+      upgraded = MIGRATIONS[version](upgraded);
+    } catch (e) {
+      throw new StorageValidationError([`migration from schema ${version} to ${version + 1} failed: ${e instanceof Error ? e.message : String(e)}`]);
+    }
+  }
+
+  const issues = validateLibrary(upgraded);
+  if (issues.length > 0) throw new StorageValidationError(issues);
+  return normalizeLibrary(upgraded as Library);
+};
+
+export const readStoredLibrary = (raw: string): StoredLibrary => {
+  let stored: any;
+  try {
+    stored = JSON.parse(raw);
+  } catch (e) {
+    throw new StorageValidationError(['saved data is not valid JSON']);
+  }
+  if (typeof stored !== 'object' || stored === null || typeof stored.schemaVersion !== 'number') {
+    throw new StorageValidationError(['saved data has no schema version']);
+  }
+  return {
+    schemaVersion: STORAGE_SCHEMA_VERSION,
+    savedAt: typeof stored.savedAt === 'string' ? stored.savedAt : '',
+    library: upgradeLibrary(stored.library, stored.schemaVersion),
+  };
+};
+
+// Key-value string storage; the library store only needs these four operations from a backend
+export interface StorageBackend {
+  name: 'IndexedDB' | 'localStorage' | 'memory';
+  get: (key: string) => Promise<string | null>;
+  set: (key: string, value: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+  keys: () => Promise<string[]>;
+}
+
+const LOCAL_STORAGE_PREFIX = 'bookbound_';
+
+export const createLocalStorageBackend = (storage: Storage = localStorage): StorageBackend => ({
+  name: 'localStorage',
+  get: async (key) => storage.getItem(`${LOCAL_STORAGE_PREFIX}${key}`),
+  set: async (key, value) => storage.setItem(`${LOCAL_STORAGE_PREFIX}${key}`, value),
+  remove: async (key) => storage.removeItem(`${LOCAL_STORAGE_PREFIX}${key}`),
+  keys: async () => Object.keys(storage)
+    .filter(key => key.startsWith(LOCAL_STORAGE_PREFIX))
+    .map(key => key.slice(LOCAL_STORAGE_PREFIX.length)),
+});
+
+// Holds records for this page only; the last resort when no browser storage can be opened
+export const createMemoryBackend = (): StorageBackend => {
+  const records = new Map<string, string>();
+  return {
+    name: 'memory',
+    get: async (key) => records.get(key) ?? null,
+    set: async (key, value) => { records.set(key, value); },
+    remove: async (key) => { records.delete(key); },
+    keys: async () => [...records.keys()],
+  };
+};
+
+const IDB_NAME = 'bookbound';
+const IDB_STORE = 'records';
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// IndexedDB has far more room than localStorage's few megabytes, which years of sessions and notes can outgrow
+export const openIndexedDbBackend = async (name = IDB_NAME): Promise<StorageBackend> => {
+  if (typeof indexedDB === 'undefined') throw new Error('IndexedDB is not available');
+  const request = indexedDB.open(name, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+  const db = await requestToPromise(request);
+
+  const run = <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) =>
+    requestToPromise(operation(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE)));
+
+  return {
+    name: 'IndexedDB',
+    get: async (key) => {
+      const value = await run('readonly', store => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    set: async (key, value) => {
+      await run('readwrite', store => store.put(value, key));
+    },
+    remove: async (key) => {
+      await run('readwrite', store => store.delete(key));
+    },
+    keys: async () => (await run('readonly', store => store.getAllKeys())).map(String),
+  };
+};
+
+const LIBRARY_KEY = 'library';
+const QUARANTINE_PREFIX = 'quarantine_';
+
+// Records written before this module existed, newest first, with the schema version each was saved at
+const LEGACY_SOURCES = [
+  { key: 'bookbound_library_v1', schemaVersion: 1 },
+  { key: 'bookbound_data_v2', schemaVersion: 0 },
+];
+
+const SYNC_CHANNEL = 'bookbound-sync';
+// Written on save when BroadcastChannel is missing, so other tabs still hear about it through storage events
+const SYNC_PING_KEY = 'bookbound_sync';
+
+export interface LoadedLibrary {
+  library: Library;
+  quarantined: QuarantinedRecord[];
+}
+
+export interface LibraryStore {
+  backend: StorageBackend['name'];
+  load: () => Promise<LoadedLibrary>;
+  save: (library: Library) => Promise<void>;
+  // Calls back with the library whenever another tab saves one; returns an unsubscribe function
+  subscribe: (listener: (library: Library) => void) => () => void;
+  discardQuarantined: (key: string) => Promise<void>;
+}
+
+// `fallback` is where saves went while the backend couldn't be opened: localStorage, for IndexedDB
+export const createLibraryStore = (
+  backend: StorageBackend,
+  fallback: StorageBackend | null = backend.name === 'IndexedDB' ? createLocalStorageBackend() : null
+): LibraryStore => {
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(SYNC_CHANNEL) : null;
+  let lastSeenSavedAt = '';
+
+  // Copies data that failed to load aside so the next save can't overwrite it
+  const quarantine = async (raw: string, reasons: string[]) => {
+    const quarantinedAt = new Date().toISOString();
+    console.error("Saved library failed to load and was quarantined:", reasons);
+    await backend.set(`${QUARANTINE_PREFIX}${quarantinedAt}`, JSON.stringify({ quarantinedAt, reasons, raw }));
+  };
+
+  const listQuarantined = async (): Promise<QuarantinedRecord[]> => {
+    const keys = (await backend.keys()).filter(key => key.startsWith(QUARANTINE_PREFIX)).sort();
+    const records = await Promise.all(keys.map(async key => {
+      try {
+        const record = JSON.parse((await backend.get(key)) || 'null');
+        return record ? { key, quarantinedAt: record.quarantinedAt, reasons: record.reasons ?? [], raw: record.raw ?? '' } : null;
+      } catch (e) {
+        return null;
+      }
+    }));
+    return records.filter((record): record is QuarantinedRecord => record !== null);
+  };
+
+  const loadOrQuarantine = async <T>(raw: string, read: (raw: string) => T) => {
+    try {
+      return read(raw);
+    } catch (e) {
+      await quarantine(raw, e instanceof StorageValidationError ? e.issues : [String(e)]);
+      return null;
+    }
+  };
+
+  // Nothing saved anywhere yet: pick up what older versions left behind
+  const loadLegacyRecord = async () => {
+    for (const source of LEGACY_SOURCES) {
+      const raw = localStorage.getItem(source.key);
+      if (raw) return loadOrQuarantine(raw, text => upgradeLibrary(JSON.parse(text), source.schemaVersion));
+    }
+    return null;
+  };
+
+  const write = async (library: Library) => {
+    const stored: StoredLibrary = { schemaVersion: STORAGE_SCHEMA_VERSION, savedAt: new Date().toISOString(), library };
+    await backend.set(LIBRARY_KEY, JSON.stringify(stored));
+    return stored;
+  };
+
+  return {
+    backend: backend.name,
+
+    load: async () => {
+      const raw = await backend.get(LIBRARY_KEY);
+      const stored = raw ? await loadOrQuarantine(raw, readStoredLibrary) : null;
+      // Saves that went to the fallback while the backend wouldn't open: whichever record is newer wins
+      const fallbackRaw = fallback ? await fallback.get(LIBRARY_KEY) : null;
+      const fallbackStored = fallbackRaw ? await loadOrQuarantine(fallbackRaw, readStoredLibrary) : null;
+      const newest = fallbackStored && (!stored || fallbackStored.savedAt > stored.savedAt) ? fallbackStored : stored;
+
+      let library = newest?.library ?? null;
+      if (!library || newest !== stored) {
+        // Written straight away so a quarantined, legacy or fallback record isn't picked up again on the next load
+        library = library ?? (raw ? null : await loadLegacyRecord()) ?? createEmptyLibrary();
+        await write(library);
+      }
+      // Reconciled now, so the fallback copy must not outrank later saves here
+      if (fallbackRaw) await fallback?.remove(LIBRARY_KEY);
+      return { library, quarantined: await listQuarantined() };
+    },
+
+    save: async (library) => {
+      const { savedAt } = await write(library);
+      if (channel) channel.postMessage({ savedAt });
+      else localStorage.setItem(SYNC_PING_KEY, savedAt);
+    },
+
+    subscribe: (listener) => {
+      const handleChange = async () => {
+        const raw = await backend.get(LIBRARY_KEY);
+        if (!raw) return;
+        try {
+          const stored = readStoredLibrary(raw);
+          // The localStorage backend hears one save through both the channel and the storage event
+          if (stored.savedAt && stored.savedAt === lastSeenSavedAt) return;
+          lastSeenSavedAt = stored.savedAt;
+          listener(stored.library);
+        } catch (e) {
+          console.error("Ignoring an unreadable library saved by another tab", e);
+        }
+      };
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === SYNC_PING_KEY || event.key === `${LOCAL_STORAGE_PREFIX}${LIBRARY_KEY}`) handleChange();
+      };
+
+      channel?.addEventListener('message', handleChange);
+      window.addEventListener('storage', handleStorage);
+      return () => {
+        channel?.removeEventListener('message', handleChange);
+        window.removeEventListener('storage', handleStorage);
+      };
+    },
+
+    discardQuarantined: (key) => backend.remove(key),
+  };
+};
+
+// IndexedDB where the browser allows it (private windows often don't), localStorage otherwise
+export const openLibraryStore = async (): Promise<LibraryStore> => {
+  try {
+    return createLibraryStore(await openIndexedDbBackend());
+  } catch (e) {
+    console.error("IndexedDB unavailable, saving to localStorage instead", e);
+    return createLibraryStore(createLocalStorageBackend());
+  }
+};
+
+const THEME_STORAGE_KEY = 'theme';
+
+// The theme is per device and needed before the first paint, so it stays a plain synchronous localStorage entry
+export const loadTheme = (): 'light' | 'dark' | null => {
+  const saved = localStorage.getItem(THEME_STORAGE_KEY);
+  return saved === 'light' || saved === 'dark' ? saved : null;
+};
+
+export const saveTheme = (theme: 'light' | 'dark') => {
+  localStorage.setItem(THEME_STORAGE_KEY, theme);
+};
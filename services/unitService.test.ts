@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createBook } from './libraryService';
+import { logSession } from './sessionService';
+import { canChangeUnit, changeUnit, formatAmountWithUnit } from './unitService';
+
+describe('formatAmountWithUnit', () => {
+  it('uses the singular for one page or location', () => {
+    expect(formatAmountWithUnit('pages', 1)).toBe('1 page');
+    expect(formatAmountWithUnit('locations', 1)).toBe('1 location');
+  });
+
+  it('uses the plural otherwise', () => {
+    expect(formatAmountWithUnit('pages', 0)).toBe('0 pages');
+    expect(formatAmountWithUnit('pages', 12)).toBe('12 pages');
+  });
+
+  it('formats percent and audio amounts without a noun', () => {
+    expect(formatAmountWithUnit('percent', 1)).toBe('1%');
+    expect(formatAmountWithUnit('duration', 65)).toBe('1h 05m');
+  });
+});
+
+describe('changeUnit', () => {
+  const book = createBook({ totalPages: 400, pagesRead: 100, planStartPage: 60 });
+
+  it('rescales progress and the plan baseline onto 0-100 when switching to percent', () => {
+    expect(changeUnit(book, 'percent')).toMatchObject({ unit: 'percent', totalPages: 100, pagesRead: 25, planStartPage: 15 });
+  });
+
+  it('clears the length and progress when leaving percent rather than reading them as pages', () => {
+    const roundTrip = changeUnit(changeUnit(book, 'percent'), 'pages');
+
+    expect(roundTrip).toMatchObject({ unit: 'pages', totalPages: 0, pagesRead: 0, planStartPage: 0 });
+  });
+
+  it('keeps the numbers between units without a fixed scale', () => {
+    expect(changeUnit(book, 'locations')).toMatchObject({ unit: 'locations', totalPages: 400, pagesRead: 100, planStartPage: 60 });
+  });
+
+  it('refuses once sessions are logged', () => {
+    const logged = logSession(book, 20, new Date(2026, 2, 2));
+
+    expect(canChangeUnit(logged)).toBe(false);
+    expect(changeUnit(logged, 'percent')).toBe(logged);
+  });
+
+  it('refuses once chapters or notes are recorded', () => {
+    const withChapters = { ...book, chapters: [{ id: 'c1', title: 'One', startPage: 1 }] };
+    const withNotes = { ...book, notes: [{ id: 'n1', kind: 'note' as const, text: 'Hm', startPage: 80, endPage: 80, date: '2026-03-02' }] };
+
+    expect(changeUnit(withChapters, 'percent')).toBe(withChapters);
+    expect(changeUnit(withNotes, 'duration')).toBe(withNotes);
+  });
+});
@@ -0,0 +1,107 @@
+import { Book, ReadingUnit } from '../types';
+
+interface UnitInfo {
+  label: string;
+  // Plural noun for amounts, e.g. "12 pages" or "pages per day"
+  noun: string;
+  totalLabel: string;
+  progressLabel: string;
+  rangeLabel: string;
+  // Placeholder for a single position, e.g. a chapter start
+  positionLabel: string;
+}
+
+export const UNIT_INFO: Record<ReadingUnit, UnitInfo> = {
+  pages: { label: 'Pages', noun: 'pages', totalLabel: 'Total Pages', progressLabel: 'Read So Far', rangeLabel: 'Page Range', positionLabel: 'Page' },
+  percent: { label: 'Percent', noun: 'percent', totalLabel: 'Total', progressLabel: 'Percent Read', rangeLabel: 'Percent Range', positionLabel: '%' },
+  locations: { label: 'Locations', noun: 'locations', totalLabel: 'Total Locations', progressLabel: 'Current Location', rangeLabel: 'Location Range', positionLabel: 'Loc' },
+  duration: { label: 'Audio', noun: 'minutes', totalLabel: 'Length (h:mm)', progressLabel: 'Listened (h:mm)', rangeLabel: 'Time Range', positionLabel: 'Min' },
+};
+
+export const READING_UNITS = (Object.keys(UNIT_INFO) as ReadingUnit[]).map(value => ({ value, label: UNIT_INFO[value].label }));
+
+export const PLAYBACK_SPEEDS = [0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+
+export const isReadingUnit = (value: unknown): value is ReadingUnit =>
+  typeof value === 'string' && value in UNIT_INFO;
+
+// Clock-style position, e.g. 125 minutes as "2:05"
+export const formatDuration = (minutes: number) => {
+  const total = Math.max(0, Math.round(minutes));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// Accepts "h:mm" or a plain number of minutes; null while the text is not a duration yet
+export const parseDuration = (text: string): number | null => {
+  const value = text.trim();
+  if (!value) return 0;
+  const clock = value.match(/^(\d+):([0-5]?\d)$/);
+  if (clock) return parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10);
+  return /^\d+$/.test(value) ? parseInt(value, 10) : null;
+};
+
+export const formatPosition = (unit: ReadingUnit, value: number) => {
+  if (unit === 'duration') return formatDuration(value);
+  if (unit === 'percent') return `${value}%`;
+  return String(value);
+};
+
+// Percent and audio are continuous, so a day that covers 10–20% starts where the last day
+// ended instead of one unit later as a page range does
+export const getRangeStart = (unit: ReadingUnit, startPage: number) =>
+  unit === 'percent' || unit === 'duration' ? startPage - 1 : startPage;
+
+// Compact range for labels, e.g. "p. 41–50", "loc. 1200–1350", "10–20%" or "1:05–1:50"
+export const formatRange = (unit: ReadingUnit, startPage: number, endPage: number) => {
+  const start = getRangeStart(unit, startPage);
+  if (unit === 'pages') return `p. ${start}–${endPage}`;
+  if (unit === 'locations') return `loc. ${start}–${endPage}`;
+  if (unit === 'percent') return `${start}–${endPage}%`;
+  return `${formatDuration(start)}–${formatDuration(endPage)}`;
+};
+
+// Compact amount without the noun for pages and locations, e.g. "12", "3%" or "1h 05m"
+export const formatAmount = (unit: ReadingUnit, amount: number) => {
+  if (unit === 'percent') return `${amount}%`;
+  if (unit !== 'duration') return String(amount);
+  const total = Math.round(amount);
+  return total < 60 ? `${total}m` : `${Math.floor(total / 60)}h ${String(total % 60).padStart(2, '0')}m`;
+};
+
+// e.g. "1 page", "12 locations", "45%" or "1h 05m"
+export const formatAmountWithUnit = (unit: ReadingUnit, amount: number) => {
+  if (unit !== 'pages' && unit !== 'locations') return formatAmount(unit, amount);
+  const noun = UNIT_INFO[unit].noun;
+  return `${amount} ${amount === 1 ? noun.slice(0, -1) : noun}`;
+};
+
+// Audiobook goals are listening time, so a stretch of audio takes less of it at higher speeds
+export const toGoalAmount = (book: Book, amount: number) =>
+  book.unit === 'duration' ? amount / book.playbackSpeed : amount;
+
+export const fromGoalAmount = (book: Book, amount: number) =>
+  book.unit === 'duration' ? Math.round(amount * book.playbackSpeed) : amount;
+
+export const formatGoal = (book: Book, amount: number, withUnit = true) => {
+  const goal = Math.round(toGoalAmount(book, amount));
+  return withUnit ? formatAmountWithUnit(book.unit, goal) : formatAmount(book.unit, goal);
+};
+
+export const formatSpeed = (speed: number) => `${speed}×`;
+
+// Sessions, chapters and notes hold positions in the book's unit, and there is no page count to convert
+// them with, so the unit is fixed once any of them exist; group plans are shared in pages
+export const canChangeUnit = (book: Book) =>
+  book.sessions.length === 0 && book.chapters.length === 0 && book.notes.length === 0 && !book.group;
+
+// Switching to percent rescales progress onto 0–100; leaving percent clears the length and progress,
+// which can't be turned back into pages or minutes; other switches keep the numbers as entered
+export const changeUnit = (book: Book, unit: ReadingUnit): Book => {
+  if (unit === book.unit || !canChangeUnit(book)) return book;
+  if (unit === 'percent') {
+    const toPercent = (position: number) => book.totalPages > 0 ? Math.min(100, Math.round((position / book.totalPages) * 100)) : 0;
+    return { ...book, unit, totalPages: 100, pagesRead: toPercent(book.pagesRead), planStartPage: toPercent(book.planStartPage) };
+  }
+  if (book.unit === 'percent') return { ...book, unit, totalPages: 0, pagesRead: 0, planStartPage: 0 };
+  return { ...book, unit };
+};
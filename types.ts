@@ -8,11 +8,384 @@ export interface ReadingData {
   startsFromToday: boolean;
 }
 
+export type BookStatus = 'queued' | 'reading' | 'paused' | 'finished' | 'abandoned';
+
+export interface ReadingSession {
+  id: string;
+  date: string;
+  pagesRead: number;
+  startPage: number;
+  endPage: number;
+  minutes?: number;
+}
+
+export interface Chapter {
+  id: string;
+  title: string;
+  startPage: number;
+}
+
+export type NoteKind = 'note' | 'quote' | 'highlight';
+
+export interface ReadingNote {
+  id: string;
+  kind: NoteKind;
+  text: string;
+  // Anchor in the book's unit; endPage equals startPage for a single page
+  startPage: number;
+  endPage: number;
+  // yyyy-MM-dd the note was taken
+  date: string;
+}
+
+export type RebalanceStrategy = 'extend' | 'spread' | 'catchup';
+
+// What totalPages, pagesRead and pagesPerDay count: printed pages, ebook percent or
+// locations, or minutes of audio
+export type ReadingUnit = 'pages' | 'percent' | 'locations' | 'duration';
+
+export interface Book extends ReadingData {
+  id: string;
+  status: BookStatus;
+  createdAt: string;
+  sessions: ReadingSession[];
+  // The plan is measured from this baseline so logged sessions don't reshuffle it
+  planStartDate: string;
+  planStartPage: number;
+  rebalanceStrategy: RebalanceStrategy;
+  catchUpDays: number;
+  chapters: Chapter[];
+  snapToChapters: boolean;
+  // How far a day's end may move to reach a chapter break, as a percentage of that day's target
+  chapterTolerance: number;
+  unit: ReadingUnit;
+  // Audiobook narration speed; for duration books pagesPerDay is listening time at this speed
+  playbackSpeed: number;
+  // yyyy-MM-dd the book was finished, used to credit it to reading challenges
+  finishedAt?: string;
+  author?: string;
+  isbn?: string;
+  edition?: string;
+  coverUrl?: string;
+  notes: ReadingNote[];
+  // Set while the book is shared with a group plan on a sync server
+  group?: GroupMembership;
+  // Daily reading time when planning by time; the plan turns it into pages at the measured reading speed
+  minutesPerDay?: number;
+  // What the last calendar export held, so the next one can revise its events and cancel dropped days
+  calendarExport?: CalendarExportState;
+}
+
+export interface ReadingPlan {
+  items: ScheduleItem[];
+  // Number of leading items that fall before today
+  pastDays: number;
+  // True when the 365-day planning horizon cut the schedule short of the last page
+  truncated: boolean;
+}
+
+export interface PlanBalance {
+  expectedPages: number;
+  // Positive when ahead of the plan, negative when behind
+  pageDelta: number;
+  projectedFinish: string | null;
+  // Positive when the projected finish lands after targetFinishDate
+  daysPastDeadline: number | null;
+  deadlinePassed: boolean;
+}
+
+export interface BlackoutRange {
+  id: string;
+  start: string;
+  end: string;
+  label: string;
+}
+
+export interface ReadingAvailability {
+  // Capacity multiplier per weekday, Sunday first; 0 marks a rest day
+  weekdayWeights: number[];
+  blackouts: BlackoutRange[];
+}
+
+export type ChallengeMetric = 'books' | 'pages';
+
+export interface ReadingChallenge {
+  id: string;
+  title: string;
+  metric: ChallengeMetric;
+  target: number;
+  // Inclusive yyyy-MM-dd period
+  startDate: string;
+  endDate: string;
+}
+
+export type ChallengeStatus = 'upcoming' | 'ahead' | 'behind' | 'completed' | 'missed';
+
+export interface ChallengeProgress {
+  achieved: number;
+  // Where a steady pace would be by today
+  expected: number;
+  // Total at the end of the period if the pace so far continues
+  projected: number;
+  daysLeft: number;
+  // Books or pages per day needed for the rest of the period
+  requiredPerDay: number;
+  // requiredPerDay in pages, estimating book challenges from the library's average length
+  requiredPagesPerDay: number;
+  status: ChallengeStatus;
+}
+
+export interface ReadingQueue {
+  // Reading order; books that are not reading or queued are skipped when scheduling
+  bookIds: string[];
+  // Number of books read side by side
+  lanes: number;
+  // Pages per day shared between the lanes; 0 keeps each book's own daily goal
+  dailyBudget: number;
+}
+
+export interface QueueProjection {
+  bookId: string;
+  lane: number;
+  startDate: string;
+  finishDate: string | null;
+  items: ScheduleItem[];
+  truncated: boolean;
+}
+
+export interface Library {
+  books: Book[];
+  activeBookId: string | null;
+  availability: ReadingAvailability;
+  challenges: ReadingChallenge[];
+  queue: ReadingQueue;
+}
+
+export type ScheduleStatus = 'pending' | 'completed' | 'partial' | 'missed';
+
 export interface ScheduleItem {
+  // ISO calendar date (yyyy-MM-dd)
   date: string;
   pagesToReadToday: number;
   startPage: number;
   endPage: number;
   cumulativePagesRead: number;
   percentComplete: number;
-}
\ No newline at end of file
+  pagesLogged: number;
+  status: ScheduleStatus;
+  chapterLabel?: string;
+}
+
+export interface ReadingStats {
+  currentStreak: number;
+  longestStreak: number;
+  sevenDayAverage: number;
+  thirtyDayAverage: number;
+  bestDay: { date: string; pages: number } | null;
+  totalPages: number;
+  activeDays: number;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+// Position at the end of a day
+export interface ChartPoint {
+  date: string;
+  pages: number;
+}
+
+export interface ProgressChartData {
+  // The day before the plan starts, where every line begins
+  originDate: string;
+  totalPages: number;
+  deadline: string;
+  today: string;
+  planned: ChartPoint[];
+  actual: ChartPoint[];
+  // Straight line from today's position to the finish at the observed velocity; empty without recent reading
+  projection: ChartPoint[];
+}
+
+export interface BookRetrospective {
+  book: Book;
+  // First logged session, or the day the book was added when nothing was logged
+  startDate: string;
+  finishDate: string;
+  // Calendar days from the start to the deadline, and to the actual finish, both inclusive
+  plannedDays: number;
+  actualDays: number;
+  // Positive when the book was finished before targetFinishDate, negative when after
+  daysAhead: number;
+  readingDays: number;
+  // Amount read per reading day, in the book's unit
+  averagePace: number;
+  longestStreak: number;
+  notesCount: number;
+}
+
+export interface YearInReview {
+  year: number;
+  books: BookRetrospective[];
+  // Pages of the finished page-based books
+  pagesFinished: number;
+  // Days with any reading logged during the year, and the longest run of them
+  readingDays: number;
+  longestStreak: number;
+  notesCount: number;
+  onTimeCount: number;
+  busiestMonth: { month: string; pages: number } | null;
+}
+
+// A shareable summary, rendered the same way as a standalone HTML page or a PNG image
+export interface ReportCard {
+  eyebrow: string;
+  title: string;
+  subtitle: string;
+  stats: { label: string; value: string; detail?: string }[];
+  highlights: string[];
+}
+
+// A what-if variation of the active plan; each override left null keeps the plan's own value
+export interface PlanScenario {
+  id: string;
+  name: string;
+  pagesPerDay: number | null;
+  targetFinishDate: string | null;
+  weekdayWeights: number[] | null;
+}
+
+export interface ScenarioProjection {
+  scenario: PlanScenario;
+  // The book and reading days as they would be if the scenario were adopted
+  book: Book;
+  availability: ReadingAvailability;
+  finishDate: string | null;
+  averageLoad: number;
+  peakLoad: number;
+  readingDays: number;
+  meetsDeadline: boolean;
+  // Cumulative position at the end of each scheduled day, starting from where today began
+  progress: { date: string; pagesRead: number }[];
+}
+
+export interface GroupMember {
+  id: string;
+  name: string;
+  pagesRead: number;
+  joinedAt: string;
+  updatedAt: string;
+}
+
+// A plan shared through the sync server; every member's schedule comes from `reading` and `startDate`
+export interface GroupPlan {
+  code: string;
+  name: string;
+  reading: ReadingData;
+  startDate: string;
+  ownerId: string;
+  createdAt: string;
+  members: GroupMember[];
+}
+
+export interface GroupMembership {
+  serverUrl: string;
+  code: string;
+  memberId: string;
+  // Secret the server issued on joining; only its holder can report this member's progress
+  token: string;
+}
+
+export type LeaderboardStatus = 'finished' | 'ahead' | 'on-track' | 'behind';
+
+export interface LeaderboardEntry {
+  member: GroupMember;
+  rank: number;
+  expected: number;
+  behindBy: number;
+  status: LeaderboardStatus;
+}
+
+// What the app keeps in browser storage; schemaVersion drives the migrations in storageService
+export interface StoredLibrary {
+  schemaVersion: number;
+  savedAt: string;
+  library: Library;
+}
+
+// Saved data that failed to load, set aside untouched so it can still be recovered
+export interface QuarantinedRecord {
+  key: string;
+  quarantinedAt: string;
+  reasons: string[];
+  raw: string;
+}
+
+export interface BookBoundBackup {
+  format: 'bookbound-backup';
+  version: number;
+  exportedAt: string;
+  theme: 'light' | 'dark';
+  library: Library;
+}
+
+export interface BookMetadata {
+  title: string;
+  author?: string;
+  pageCount?: number;
+  coverUrl?: string;
+  isbn?: string;
+  edition?: string;
+  // Name of the provider that found it
+  source: string;
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  // Local time of day (HH:mm)
+  time: string;
+  // yyyy-MM-dd of the last reminder shown, so each day gets at most one
+  lastShown: string | null;
+}
+
+export interface CalendarExportOptions {
+  // Local start time (HH:mm) for time-slotted events; all-day events when omitted
+  startTime?: string;
+  durationMinutes: number;
+  reminder: boolean;
+  reminderMinutes: number;
+}
+
+export interface CalendarExportState {
+  // Revision of the exported events; goes up by one whenever they change
+  sequence: number;
+  fingerprint: string;
+  // Reading days exported and not yet past, including ones since dropped from the plan
+  dates: string[];
+}
+
+export type CoachRiskLevel = 'low' | 'medium' | 'high';
+
+export interface CoachContext {
+  bookId: string;
+  title: string;
+  totalPages: number;
+  pagesLeft: number;
+  pagesPerDay: number;
+  observedPagesPerDay: number;
+  daysToDeadline: number;
+  pageDelta: number;
+  daysPastDeadline: number | null;
+  currentStreak: number;
+  // Unit of every amount above; audiobook amounts are listening minutes at the chosen speed
+  unit: ReadingUnit;
+  targetFinishDate: string;
+  status: BookStatus;
+}
+
+export interface CoachAdvice {
+  suggestedPagesPerDay: number;
+  paceAdjustment: 'increase' | 'decrease' | 'keep';
+  message: string;
+  riskLevel: CoachRiskLevel;
+  source: 'gemini' | 'offline';
+}